@@ -0,0 +1,56 @@
+import type { TokenCounts } from '~/types/tokens'
+import type { ApiResponse } from '../../server/utils/responses'
+
+/**
+ * Live token counts of a form's text fields
+ * Counted on the server with the default model's tokenizer, a moment
+ * after typing stops
+ */
+export function useTokenCounts(
+  texts: () => Record<string, string | null | undefined>,
+  delay = 500
+) {
+  const counts = ref<Record<string, number>>({})
+  const exact = ref(true)
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let controller: AbortController | undefined
+
+  const count = async (value: Record<string, string | null | undefined>) => {
+    // Only the latest request matters
+    controller?.abort()
+    controller = new AbortController()
+
+    try {
+      const response = await $fetch<ApiResponse<TokenCounts>>('/api/tokens/count', {
+        method: 'POST',
+        body: { texts: value },
+        signal: controller.signal,
+      })
+
+      if (response.data) {
+        counts.value = response.data.counts
+        exact.value = response.data.exact
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) console.error(error)
+    }
+  }
+
+  watch(
+    texts,
+    (value) => {
+      if (import.meta.server) return
+      clearTimeout(timer)
+      timer = setTimeout(() => count(value), delay)
+    },
+    { deep: true, immediate: true }
+  )
+
+  onBeforeUnmount(() => {
+    clearTimeout(timer)
+    controller?.abort()
+  })
+
+  return { counts, exact }
+}
@@ -0,0 +1,173 @@
+import { defineStore, acceptHMRUpdate } from 'pinia'
+import type { NavigationMenuItem } from '@nuxt/ui'
+import type {
+  Affiliation,
+  CreateAffiliationInput,
+  UpdateAffiliationInput,
+} from '~/types/affiliations'
+import type { ApiResponse } from '../../server/utils/responses'
+
+export const useAffiliationStore = defineStore('affiliations', () => {
+  // State - this is the reactive data we'll mutate for optimistic updates
+  const affiliations = ref<Affiliation[]>([])
+  const busy = ref(false)
+  const error = ref<string | null>(null)
+  const isInitialized = ref(false)
+  
+  // Use useFetch at store level with proper SSR handling
+  const { data: _fetchedData, pending, refresh } = useFetch<ApiResponse<Affiliation[]>>('/api/affiliations', {
+    key: 'affiliations',
+    server: false, // Client-only for user-isolated data
+    lazy: false, // Fetch immediately when store is accessed
+    default: () => ({ success: true, data: [], message: '', count: 0 }),
+    onResponse({ response }) {
+      // Update our local state when data is fetched
+      if (response._data?.data) {
+        affiliations.value = response._data.data
+        isInitialized.value = true
+      }
+    }
+  })
+  
+  // Loading state: true on server, follows pending on client, or if not initialized
+  const loading = computed(() => {
+    if (import.meta.server) return true // Always show skeleton on SSR
+    return pending.value || !isInitialized.value // Show loading until data is ready
+  })
+
+  // Getters
+  const getAffiliationById = computed(
+    () => (id: string) => affiliations.value.find((affiliation) => affiliation.id === id)
+  )
+
+  const sortedAffiliations = computed(() =>
+    [...affiliations.value].sort((a, b) => a.name.localeCompare(b.name))
+  )
+
+  const navigationItems = computed(() => (): NavigationMenuItem[] => {
+    const localeRoute = useLocalePath()
+
+    return sortedAffiliations.value.map((affiliation: Affiliation) => ({
+      label: affiliation.name,
+      to: localeRoute({
+        name: 'affiliations-id',
+        params: { id: affiliation.id },
+      }),
+    }))
+  })
+
+  // Actions
+  async function fetchAffiliations() {
+    // Just refresh - onResponse callback handles the update
+    return await refresh()
+  }
+
+  async function createAffiliation(input: CreateAffiliationInput) {
+    busy.value = true
+    const originalAffiliations = [...affiliations.value]
+
+    try {
+      const response = await $fetch('/api/affiliations', {
+        method: 'POST',
+        body: input,
+      })
+
+      if (response.data) {
+        affiliations.value.push(response.data as Affiliation)
+        return response.data as Affiliation
+      }
+      throw new Error('No affiliation returned')
+    } catch (err) {
+      affiliations.value = originalAffiliations // Rollback on failure
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to create affiliation'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function updateAffiliation(id: string, input: UpdateAffiliationInput) {
+    busy.value = true
+    const index = affiliations.value.findIndex((a) => a.id === id)
+    const originalAffiliation = index !== -1 ? { ...affiliations.value[index]! } : null
+
+    try {
+      // Optimistic update
+      if (index !== -1 && originalAffiliation) {
+        affiliations.value[index] = { ...originalAffiliation, ...input }
+      }
+
+      const response = await $fetch(`/api/affiliations/${id}`, {
+        method: 'PUT',
+        body: input,
+      })
+
+      if (response.data) {
+        if (index !== -1) {
+          affiliations.value[index] = response.data as Affiliation
+        }
+        return response.data as Affiliation
+      }
+      throw new Error('No affiliation returned')
+    } catch (err) {
+      // Rollback on failure
+      if (index !== -1 && originalAffiliation) {
+        affiliations.value[index] = originalAffiliation
+      }
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to update affiliation'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function deleteAffiliation(id: string) {
+    busy.value = true
+    const originalAffiliations = [...affiliations.value]
+
+    try {
+      // Optimistic delete
+      affiliations.value = affiliations.value.filter((a) => a.id !== id)
+      
+      await $fetch(`/api/affiliations/${id}`, {
+        method: 'DELETE',
+      })
+      
+      // Refresh personas to reflect removed memberships
+      const personaStore = usePersonaStore()
+      await personaStore.fetchPersonas()
+    } catch (err) {
+      affiliations.value = originalAffiliations // Rollback on failure
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to delete affiliation'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  return {
+    // State
+    affiliations,
+    loading,
+    busy,
+    error,
+
+    // Getters
+    getAffiliationById,
+    sortedAffiliations,
+    navigationItems,
+
+    // Actions
+    fetchAffiliations,
+    createAffiliation,
+    updateAffiliation,
+    deleteAffiliation,
+  }
+})
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useAffiliationStore, import.meta.hot))
+}
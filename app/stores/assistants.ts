@@ -62,6 +62,7 @@ export const useAssistantStore = defineStore('assistants', () => {
 
       return {
         label: displayName,
+        avatar: { src: avatarSrc(assistant.persona?.avatarUrl), alt: assistant.persona?.name || displayName },
         to: localeRoute({
           name: 'assistants-id',
           params: { id: assistant.id },
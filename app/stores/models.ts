@@ -1,6 +1,18 @@
 import { defineStore, acceptHMRUpdate } from 'pinia'
 import type { NavigationMenuItem } from '@nuxt/ui'
-import type { Model, CreateModelInput, UpdateModelInput } from '~/types/models'
+import type {
+  Model,
+  CreateModelInput,
+  UpdateModelInput,
+  DiscoveredModel,
+  DiscoverModelsInput,
+  ModelHealth,
+  DiagnosticReport,
+  ProbeCheck,
+  ExportFormat,
+  ImportModelsInput,
+  ImportModelsResult,
+} from '~/types/models'
 import type { ApiResponse } from '../../server/utils/responses'
 
 export const useModelStore = defineStore('models', () => {
@@ -9,6 +21,7 @@ export const useModelStore = defineStore('models', () => {
   const busy = ref(false)
   const error = ref<string | null>(null)
   const isInitialized = ref(false)
+  const health = ref<Record<string, ModelHealth>>({})
   
   // Use useFetch but handle client/server differently
   const { data: _fetchedData, pending, refresh } = useFetch<ApiResponse<Model[]>>('/api/models', {
@@ -41,6 +54,10 @@ export const useModelStore = defineStore('models', () => {
     () => (id: string) => models.value.find((model) => model.id === id)
   )
 
+  const getHealthById = computed(
+    () => (id: string) => health.value[id]
+  )
+
   const sortedModels = computed(() =>
     [...models.value].sort((a, b) => {
       // Default model first
@@ -55,20 +72,21 @@ export const useModelStore = defineStore('models', () => {
     () =>
       (currentModelId?: string): NavigationMenuItem[] => {
         const localeRoute = useLocalePath()
+        const providerStore = useProviderStore()
 
-        // Group models by endpoint
-        const modelsByEndpoint = sortedModels.value.reduce((acc, model) => {
-          if (!acc[model.apiEndpoint]) {
-            acc[model.apiEndpoint] = []
+        // Group models by provider
+        const modelsByProvider = sortedModels.value.reduce((acc, model) => {
+          if (!acc[model.providerId]) {
+            acc[model.providerId] = []
           }
-          acc[model.apiEndpoint]!.push(model)
+          acc[model.providerId]!.push(model)
           return acc
         }, {} as Record<string, Model[]>)
 
-        // Create navigation items grouped by endpoint
-        return Object.entries(modelsByEndpoint).map(([endpoint, models]) => ({
+        // Create navigation items grouped by provider
+        return Object.entries(modelsByProvider).map(([providerId, models]) => ({
           icon: 'i-ph-hard-drive-fill',
-          label: new URL(endpoint).hostname, // Show just the hostname for cleaner display
+          label: providerStore.getProviderById(providerId)?.name || '…',
           defaultOpen: models.some(
             (model: Model) => model.id === currentModelId
           ),
@@ -76,6 +94,8 @@ export const useModelStore = defineStore('models', () => {
             label: model.name,
             to: localeRoute({ name: 'models-id', params: { id: model.id } }),
             icon: model.isDefault ? 'i-ph-asterisk' : undefined,
+            slot: 'model' as const,
+            modelId: model.id,
           })),
         }))
       }
@@ -112,7 +132,10 @@ export const useModelStore = defineStore('models', () => {
     }
   }
 
-  async function createModels(input: CreateModelInput | CreateModelInput[]) {
+  async function createModels(
+    input: CreateModelInput | CreateModelInput[],
+    options: { probe?: boolean } = {}
+  ) {
     busy.value = true
     const originalModels = [...models.value] // Save state for rollback
 
@@ -120,6 +143,8 @@ export const useModelStore = defineStore('models', () => {
       const response = await $fetch('/api/models', {
         method: 'POST',
         body: input,
+        // The probe runs in the background, its results arrive on the next fetch
+        query: options.probe ? { probe: 'true' } : undefined,
       })
 
       // Handle both single and multiple model responses
@@ -248,7 +273,7 @@ export const useModelStore = defineStore('models', () => {
         body: input,
       })
 
-      return response
+      return response.data as DiagnosticReport
     } catch (err) {
       throw new Error(
         err instanceof Error ? err.message : 'Connection test failed'
@@ -256,9 +281,100 @@ export const useModelStore = defineStore('models', () => {
     }
   }
 
+  async function probeModel(id: string) {
+    try {
+      const response = await $fetch(`/api/models/${id}/probe`, {
+        method: 'POST',
+      })
+
+      const result = response.data as { model: Model; checks: ProbeCheck[] }
+      const index = models.value.findIndex((m) => m.id === id)
+      if (index !== -1) {
+        models.value[index] = result.model
+      }
+      return result
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Capability probe failed'
+      )
+    }
+  }
+
+  async function fetchHealth() {
+    try {
+      const response = await $fetch('/api/models/health')
+      const records = (response.data || []) as ModelHealth[]
+
+      health.value = Object.fromEntries(
+        records.map((record) => [record.modelId, record])
+      )
+      return health.value
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to fetch model health'
+      )
+    }
+  }
+
+  async function discoverModels(input: DiscoverModelsInput) {
+    try {
+      const response = await $fetch('/api/models/discover', {
+        method: 'POST',
+        body: input,
+      })
+
+      return (response.data || []) as DiscoveredModel[]
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Model discovery failed'
+      )
+    }
+  }
+
+  async function exportModels(format: ExportFormat) {
+    try {
+      return await $fetch<string>('/api/models/export', {
+        query: { format },
+        responseType: 'text',
+      })
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to export models'
+      )
+    }
+  }
+
+  async function importModels(input: ImportModelsInput) {
+    if (!input.dryRun) busy.value = true
+
+    try {
+      const response = await $fetch('/api/models/import', {
+        method: 'POST',
+        body: input,
+      })
+
+      const result = response.data as ImportModelsResult
+      if (result.createdModels.length > 0) {
+        models.value.push(...result.createdModels)
+      }
+      // New providers are created on the server, reload them
+      if (result.createdProviders > 0) {
+        await useProviderStore().fetchProviders()
+      }
+      return result
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to import models'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
   return {
     // State
     models,
+    health,
     loading,
     busy,
     error,
@@ -266,6 +382,7 @@ export const useModelStore = defineStore('models', () => {
     // Getters
     defaultModel,
     getModelById,
+    getHealthById,
     sortedModels,
     navigationItems,
 
@@ -277,6 +394,11 @@ export const useModelStore = defineStore('models', () => {
     deleteModel,
     setDefaultModel,
     testModelConnection,
+    probeModel,
+    fetchHealth,
+    discoverModels,
+    exportModels,
+    importModels,
   }
 })
 
@@ -2,6 +2,9 @@ import { defineStore, acceptHMRUpdate } from 'pinia'
 import type { NavigationMenuItem } from '@nuxt/ui'
 import type {
   Persona,
+  PersonaRevision,
+  CardFormat,
+  CharacterCardImport,
   CreatePersonaInput,
   UpdatePersonaInput,
 } from '~/types/personas'
@@ -49,6 +52,7 @@ export const usePersonaStore = defineStore('personas', () => {
 
     return sortedPersonas.value.map((persona: Persona) => ({
       label: persona.name,
+      avatar: { src: avatarSrc(persona.avatarUrl), alt: persona.name },
       to: localeRoute({
         name: 'personas-id',
         params: { id: persona.id },
@@ -98,7 +102,7 @@ export const usePersonaStore = defineStore('personas', () => {
         personas.value[index] = { ...originalPersona, ...input }
       }
 
-      const response = await $fetch(`/api/personas/${id}`, {
+      const response = await $fetch<ApiResponse<Persona>>(`/api/personas/${id}`, {
         method: 'PUT',
         body: input,
       })
@@ -123,6 +127,133 @@ export const usePersonaStore = defineStore('personas', () => {
     }
   }
 
+  async function uploadAvatar(id: string, file: File) {
+    busy.value = true
+
+    try {
+      const body = new FormData()
+      body.append('file', file)
+
+      const response = await $fetch<ApiResponse<Persona>>(`/api/personas/${id}/avatar`, {
+        method: 'PUT',
+        body,
+      })
+
+      if (response.data) {
+        replacePersona(response.data)
+        return response.data
+      }
+      throw new Error('No persona returned')
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to upload avatar'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function removeAvatar(id: string) {
+    busy.value = true
+
+    try {
+      const response = await $fetch<ApiResponse<Persona>>(`/api/personas/${id}/avatar`, {
+        method: 'DELETE',
+      })
+
+      if (response.data) {
+        replacePersona(response.data)
+        return response.data
+      }
+      throw new Error('No persona returned')
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to remove avatar'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function fetchRevisions(id: string) {
+    try {
+      const response = await $fetch<ApiResponse<PersonaRevision[]>>(`/api/personas/${id}/revisions`)
+      return response.data || []
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to fetch revisions'
+      )
+    }
+  }
+
+  async function restoreRevision(id: string, revision: number) {
+    busy.value = true
+
+    try {
+      const response = await $fetch<ApiResponse<Persona>>(`/api/personas/${id}/restore`, {
+        method: 'POST',
+        body: { revision },
+      })
+
+      if (response.data) {
+        replacePersona(response.data)
+        return response.data
+      }
+      throw new Error('No persona returned')
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to restore revision'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function readCharacterCard(file: File) {
+    try {
+      const body = new FormData()
+      body.append('file', file)
+
+      const response = await $fetch<ApiResponse<CharacterCardImport>>('/api/personas/import', {
+        method: 'POST',
+        body,
+      })
+
+      if (response.data) return response.data
+      throw new Error('No card returned')
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to read character card'
+      )
+    }
+  }
+
+  async function exportCharacterCard(id: string, format: CardFormat) {
+    try {
+      return await $fetch<Blob>(`/api/personas/${id}/card`, {
+        query: { format },
+        responseType: 'blob',
+      })
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to export character card'
+      )
+    }
+  }
+
+  // Assistants embed their persona, keep both lists in step
+  function replacePersona(persona: Persona) {
+    const index = personas.value.findIndex((p) => p.id === persona.id)
+    if (index !== -1) {
+      personas.value[index] = persona
+    }
+    useAssistantStore().assistants.forEach((assistant) => {
+      if (assistant.persona?.id === persona.id) {
+        assistant.persona = persona
+      }
+    })
+  }
+
   async function deletePersona(id: string) {
     busy.value = true
     const originalPersonas = [...personas.value]
@@ -164,6 +295,12 @@ export const usePersonaStore = defineStore('personas', () => {
     fetchPersonas,
     createPersona,
     updatePersona,
+    uploadAvatar,
+    removeAvatar,
+    fetchRevisions,
+    restoreRevision,
+    readCharacterCard,
+    exportCharacterCard,
     deletePersona,
   }
 })
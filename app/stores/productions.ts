@@ -0,0 +1,133 @@
+import { defineStore, acceptHMRUpdate } from 'pinia'
+import type { NavigationMenuItem } from '@nuxt/ui'
+import type {
+  Production,
+  CreateProductionInput,
+} from '~/types/productions'
+import type { ApiResponse } from '../../server/utils/responses'
+
+export const useProductionStore = defineStore('productions', () => {
+  // State - this is the reactive data we'll mutate for optimistic updates
+  const productions = ref<Production[]>([])
+  const busy = ref(false)
+  const error = ref<string | null>(null)
+  const isInitialized = ref(false)
+  
+  // Use useFetch at store level with proper SSR handling
+  const { data: _fetchedData, pending, refresh } = useFetch<ApiResponse<Production[]>>('/api/productions', {
+    key: 'productions',
+    server: false, // Client-only for user-isolated data
+    lazy: false, // Fetch immediately when store is accessed
+    default: () => ({ success: true, data: [], message: '', count: 0 }),
+    onResponse({ response }) {
+      // Update our local state when data is fetched
+      if (response._data?.data) {
+        productions.value = response._data.data
+        isInitialized.value = true
+      }
+    }
+  })
+  
+  // Loading state: true on server, follows pending on client, or if not initialized
+  const loading = computed(() => {
+    if (import.meta.server) return true // Always show skeleton on SSR
+    return pending.value || !isInitialized.value // Show loading until data is ready
+  })
+
+  // Getters
+  const getProductionById = computed(
+    () => (id: string) =>
+      productions.value.find((production) => production.id === id)
+  )
+
+  // Most recent productions first
+  const sortedProductions = computed(() =>
+    [...productions.value].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  )
+
+  const navigationItems = computed(() => (): NavigationMenuItem[] => {
+    const localeRoute = useLocalePath()
+
+    return sortedProductions.value.map((production: Production) => ({
+      label: production.name,
+      to: localeRoute({
+        name: 'productions-id',
+        params: { id: production.id },
+      }),
+    }))
+  })
+
+  // Actions
+  async function fetchProductions() {
+    // Just refresh - onResponse callback handles the update
+    return await refresh()
+  }
+
+  async function createProduction(input: CreateProductionInput) {
+    busy.value = true
+    const originalProductions = [...productions.value]
+
+    try {
+      const response = await $fetch('/api/productions', {
+        method: 'POST',
+        body: input,
+      })
+
+      if (response.data) {
+        productions.value.push(response.data as Production)
+        return response.data as Production
+      }
+      throw new Error('No production returned')
+    } catch (err) {
+      productions.value = originalProductions // Rollback on failure
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to create production'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function deleteProduction(id: string) {
+    busy.value = true
+    const originalProductions = [...productions.value]
+
+    try {
+      // Optimistic delete
+      productions.value = productions.value.filter((p) => p.id !== id)
+      
+      await $fetch(`/api/productions/${id}`, {
+        method: 'DELETE',
+      })
+    } catch (err) {
+      productions.value = originalProductions // Rollback on failure
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to delete production'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  return {
+    // State
+    productions,
+    loading,
+    busy,
+    error,
+
+    // Getters
+    getProductionById,
+    sortedProductions,
+    navigationItems,
+
+    // Actions
+    fetchProductions,
+    createProduction,
+    deleteProduction,
+  }
+})
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useProductionStore, import.meta.hot))
+}
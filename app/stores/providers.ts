@@ -0,0 +1,245 @@
+import { defineStore, acceptHMRUpdate } from 'pinia'
+import type { NavigationMenuItem } from '@nuxt/ui'
+import type {
+  Provider,
+  ProviderQueue,
+  CreateProviderInput,
+  UpdateProviderInput,
+  OllamaModel,
+  OllamaModelInfo,
+} from '~/types/providers'
+import type { ApiResponse } from '../../server/utils/responses'
+
+export const useProviderStore = defineStore('providers', () => {
+  // State - this is the reactive data we'll mutate for optimistic updates
+  const providers = ref<Provider[]>([])
+  const busy = ref(false)
+  const error = ref<string | null>(null)
+  const isInitialized = ref(false)
+  const queues = ref<Record<string, ProviderQueue>>({})
+  
+  // Use useFetch at store level with proper SSR handling
+  const { data: _fetchedData, pending, refresh } = useFetch<ApiResponse<Provider[]>>('/api/providers', {
+    key: 'providers',
+    server: false, // Client-only for user-isolated data
+    lazy: false, // Fetch immediately when store is accessed
+    default: () => ({ success: true, data: [], message: '', count: 0 }),
+    onResponse({ response }) {
+      // Update our local state when data is fetched
+      if (response._data?.data) {
+        providers.value = response._data.data
+        isInitialized.value = true
+      }
+    }
+  })
+  
+  // Loading state: true on server, follows pending on client, or if not initialized
+  const loading = computed(() => {
+    if (import.meta.server) return true // Always show skeleton on SSR
+    return pending.value || !isInitialized.value // Show loading until data is ready
+  })
+
+  // Getters
+  const getProviderById = computed(
+    () => (id: string) => providers.value.find((provider) => provider.id === id)
+  )
+
+  const getQueueById = computed(
+    () => (id: string) => queues.value[id]
+  )
+
+  const sortedProviders = computed(() =>
+    [...providers.value].sort((a, b) => a.name.localeCompare(b.name))
+  )
+
+  const navigationItems = computed(() => (): NavigationMenuItem[] => {
+    const localeRoute = useLocalePath()
+
+    return sortedProviders.value.map((provider: Provider) => ({
+      label: provider.name,
+      slot: 'provider' as const,
+      providerId: provider.id,
+      to: localeRoute({
+        name: 'providers-id',
+        params: { id: provider.id },
+      }),
+    }))
+  })
+
+  // Actions
+  async function fetchProviders() {
+    // Just refresh - onResponse callback handles the update
+    return await refresh()
+  }
+
+  async function createProvider(input: CreateProviderInput) {
+    busy.value = true
+    const originalProviders = [...providers.value]
+
+    try {
+      const response = await $fetch('/api/providers', {
+        method: 'POST',
+        body: input,
+      })
+
+      if (response.data) {
+        providers.value.push(response.data as Provider)
+        return response.data as Provider
+      }
+      throw new Error('No provider returned')
+    } catch (err) {
+      providers.value = originalProviders // Rollback on failure
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to create provider'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function updateProvider(id: string, input: UpdateProviderInput) {
+    busy.value = true
+    const index = providers.value.findIndex((p) => p.id === id)
+    const originalProvider = index !== -1 ? { ...providers.value[index] } : null
+
+    try {
+      // Optimistic update
+      if (index !== -1 && originalProvider) {
+        providers.value[index] = { ...originalProvider, ...input } as Provider
+      }
+
+      const response = await $fetch<ApiResponse<Provider>>(`/api/providers/${id}`, {
+        method: 'PUT',
+        body: input,
+      })
+
+      if (response.data) {
+        if (index !== -1) {
+          providers.value[index] = response.data as Provider
+        }
+        return response.data as Provider
+      }
+      throw new Error('No provider returned')
+    } catch (err) {
+      // Rollback on failure
+      if (index !== -1 && originalProvider) {
+        providers.value[index] = originalProvider as Provider
+      }
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to update provider'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function deleteProvider(id: string) {
+    busy.value = true
+    const originalProviders = [...providers.value]
+
+    try {
+      // Optimistic delete
+      providers.value = providers.value.filter((p) => p.id !== id)
+      
+      await $fetch(`/api/providers/${id}`, {
+        method: 'DELETE',
+      })
+    } catch (err) {
+      providers.value = originalProviders // Rollback on failure
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to delete provider'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function fetchQueues() {
+    try {
+      const response = await $fetch('/api/providers/queue')
+      const records = (response.data || []) as ProviderQueue[]
+
+      queues.value = Object.fromEntries(
+        records.map((record) => [record.providerId, record])
+      )
+      return queues.value
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to fetch provider queues'
+      )
+    }
+  }
+
+  async function fetchOllamaModels(id: string) {
+    try {
+      const response = await $fetch<ApiResponse<OllamaModel[]>>(`/api/providers/${id}/ollama`)
+      return response.data || []
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to list Ollama models'
+      )
+    }
+  }
+
+  async function fetchOllamaModelInfo(id: string, name: string) {
+    try {
+      const response = await $fetch<ApiResponse<OllamaModelInfo>>(`/api/providers/${id}/ollama/show`, {
+        query: { name },
+      })
+      return response.data as OllamaModelInfo
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to load model details'
+      )
+    }
+  }
+
+  async function deleteOllamaModel(id: string, name: string) {
+    try {
+      const response = await $fetch<ApiResponse<{ modelIds: string[] }>>(`/api/providers/${id}/ollama`, {
+        method: 'DELETE',
+        query: { name },
+      })
+
+      // Configured models of the deleted Ollama model are gone too
+      const removed = new Set(response.data?.modelIds || [])
+      if (removed.size > 0) {
+        const modelStore = useModelStore()
+        modelStore.models = modelStore.models.filter((model) => !removed.has(model.id))
+      }
+    } catch (err) {
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to delete Ollama model'
+      )
+    }
+  }
+
+  return {
+    // State
+    providers,
+    queues,
+    loading,
+    busy,
+    error,
+
+    // Getters
+    getProviderById,
+    getQueueById,
+    sortedProviders,
+    navigationItems,
+
+    // Actions
+    fetchProviders,
+    createProvider,
+    updateProvider,
+    deleteProvider,
+    fetchQueues,
+    fetchOllamaModels,
+    fetchOllamaModelInfo,
+    deleteOllamaModel,
+  }
+})
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useProviderStore, import.meta.hot))
+}
@@ -0,0 +1,169 @@
+import { defineStore, acceptHMRUpdate } from 'pinia'
+import type { NavigationMenuItem } from '@nuxt/ui'
+import type {
+  Scenario,
+  CreateScenarioInput,
+  UpdateScenarioInput,
+} from '~/types/scenarios'
+import type { ApiResponse } from '../../server/utils/responses'
+
+export const useScenarioStore = defineStore('scenarios', () => {
+  // State - this is the reactive data we'll mutate for optimistic updates
+  const scenarios = ref<Scenario[]>([])
+  const busy = ref(false)
+  const error = ref<string | null>(null)
+  const isInitialized = ref(false)
+  
+  // Use useFetch at store level with proper SSR handling
+  const { data: _fetchedData, pending, refresh } = useFetch<ApiResponse<Scenario[]>>('/api/scenarios', {
+    key: 'scenarios',
+    server: false, // Client-only for user-isolated data
+    lazy: false, // Fetch immediately when store is accessed
+    default: () => ({ success: true, data: [], message: '', count: 0 }),
+    onResponse({ response }) {
+      // Update our local state when data is fetched
+      if (response._data?.data) {
+        scenarios.value = response._data.data
+        isInitialized.value = true
+      }
+    }
+  })
+  
+  // Loading state: true on server, follows pending on client, or if not initialized
+  const loading = computed(() => {
+    if (import.meta.server) return true // Always show skeleton on SSR
+    return pending.value || !isInitialized.value // Show loading until data is ready
+  })
+
+  // Getters
+  const getScenarioById = computed(
+    () => (id: string) => scenarios.value.find((scenario) => scenario.id === id)
+  )
+
+  const sortedScenarios = computed(() =>
+    [...scenarios.value].sort((a, b) => a.name.localeCompare(b.name))
+  )
+
+  const navigationItems = computed(() => (): NavigationMenuItem[] => {
+    const localeRoute = useLocalePath()
+
+    return sortedScenarios.value.map((scenario: Scenario) => ({
+      label: scenario.name,
+      to: localeRoute({
+        name: 'scenarios-id',
+        params: { id: scenario.id },
+      }),
+    }))
+  })
+
+  // Actions
+  async function fetchScenarios() {
+    // Just refresh - onResponse callback handles the update
+    return await refresh()
+  }
+
+  async function createScenario(input: CreateScenarioInput) {
+    busy.value = true
+    const originalScenarios = [...scenarios.value]
+
+    try {
+      const response = await $fetch('/api/scenarios', {
+        method: 'POST',
+        body: input,
+      })
+
+      if (response.data) {
+        scenarios.value.push(response.data as Scenario)
+        return response.data as Scenario
+      }
+      throw new Error('No scenario returned')
+    } catch (err) {
+      scenarios.value = originalScenarios // Rollback on failure
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to create scenario'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function updateScenario(id: string, input: UpdateScenarioInput) {
+    busy.value = true
+    const index = scenarios.value.findIndex((w) => w.id === id)
+    const originalScenario = index !== -1 ? { ...scenarios.value[index]! } : null
+
+    try {
+      // Optimistic update
+      if (index !== -1 && originalScenario) {
+        scenarios.value[index] = { ...originalScenario, ...input }
+      }
+
+      const response = await $fetch(`/api/scenarios/${id}`, {
+        method: 'PUT',
+        body: input,
+      })
+
+      if (response.data) {
+        if (index !== -1) {
+          scenarios.value[index] = response.data as Scenario
+        }
+        return response.data as Scenario
+      }
+      throw new Error('No scenario returned')
+    } catch (err) {
+      // Rollback on failure
+      if (index !== -1 && originalScenario) {
+        scenarios.value[index] = originalScenario
+      }
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to update scenario'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  async function deleteScenario(id: string) {
+    busy.value = true
+    const originalScenarios = [...scenarios.value]
+
+    try {
+      // Optimistic delete
+      scenarios.value = scenarios.value.filter((w) => w.id !== id)
+      
+      await $fetch(`/api/scenarios/${id}`, {
+        method: 'DELETE',
+      })
+    } catch (err) {
+      scenarios.value = originalScenarios // Rollback on failure
+      throw new Error(
+        err instanceof Error ? err.message : 'Failed to delete scenario'
+      )
+    } finally {
+      busy.value = false
+    }
+  }
+
+  return {
+    // State
+    scenarios,
+    loading,
+    busy,
+    error,
+
+    // Getters
+    getScenarioById,
+    sortedScenarios,
+    navigationItems,
+
+    // Actions
+    fetchScenarios,
+    createScenario,
+    updateScenario,
+    deleteScenario,
+  }
+})
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useScenarioStore, import.meta.hot))
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+import type { InferSelectModel } from 'drizzle-orm'
+import type { affiliations } from '../../server/database/schema/affiliations'
+
+// Database model type (with serialized dates for client-server communication)
+export type Affiliation = Omit<InferSelectModel<typeof affiliations>, 'createdAt' | 'updatedAt'> & {
+  createdAt: string
+  updatedAt: string
+}
+
+// Input types for API operations
+export type CreateAffiliationInput = {
+  name: string
+  universalTruth?: string | null
+  internalTruth?: string | null
+  externalTruth?: string | null
+}
+
+export type UpdateAffiliationInput = Partial<CreateAffiliationInput>
@@ -1,7 +1,7 @@
 import type { InferSelectModel } from 'drizzle-orm'
 import type { assistants } from '../../server/database/schema/assistants'
 import type { Persona } from './personas'
-import type { Model } from './models'
+import type { Model, ModelSettings } from './models'
 
 // Database model type (with serialized dates for client-server communication)
 export type Assistant = Omit<InferSelectModel<typeof assistants>, 'createdAt' | 'updatedAt'> & {
@@ -9,6 +9,7 @@ export type Assistant = Omit<InferSelectModel<typeof assistants>, 'createdAt' |
   updatedAt: string
   persona?: Persona // Include related persona data
   model?: Model // Include related model data
+  fallbackModelIds: string[] // Backup models in the order they are tried
 }
 
 // Input types for API operations
@@ -16,6 +17,8 @@ export type CreateAssistantInput = {
   personaId: string
   modelId: string
   name?: string | null
+  configOverride?: ModelSettings | null
+  fallbackModelIds?: string[]
 }
 
 export type UpdateAssistantInput = Partial<CreateAssistantInput>
\ No newline at end of file
@@ -1,19 +1,67 @@
 import type { InferSelectModel } from 'drizzle-orm'
-import type { models } from '../../server/database/schema/models'
+import type { models, ModelCapabilities, ModelSettings } from '../../server/database/schema/models'
+import type { ProviderKind } from '../../server/utils/llm/types'
+import type { HealthCheck, ModelHealth as ServerModelHealth } from '../../server/utils/health'
+import type { ImportPlan } from '../../server/utils/transfer'
+
+export type { ModelCapabilities, ModelSettings }
+export type { DiscoveredModel, ProviderKind } from '../../server/utils/llm/types'
+export type { HealthStatus } from '../../server/utils/health'
+export type { DiagnosticCheck, DiagnosticReport } from '../../server/utils/diagnostics'
+export type { ProbeCheck, ProbeStatus } from '../../server/utils/capabilities'
+export type { ExportFormat, ImportPlan } from '../../server/utils/transfer'
 
 // Database model type (with serialized dates for client-server communication)
-export type Model = Omit<InferSelectModel<typeof models>, 'createdAt' | 'updatedAt'> & {
+export type Model = Omit<InferSelectModel<typeof models>, 'createdAt' | 'updatedAt' | 'probedAt'> & {
   createdAt: string
   updatedAt: string
+  probedAt: string | null
+}
+
+// Health history (with serialized dates for client-server communication)
+export type ModelHealthCheck = Omit<HealthCheck, 'checkedAt'> & {
+  checkedAt: string
+}
+
+export type ModelHealth = Omit<ServerModelHealth, 'checks'> & {
+  checks: ModelHealthCheck[]
 }
 
 // Input types for API operations
 export type CreateModelInput = {
   name: string
-  apiEndpoint: string
-  apiKey?: string | null
+  providerId: string
   modelId: string
   isDefault?: boolean
+  contextLength?: number | null
+  maxOutputTokens?: number | null
+  defaultSettings?: ModelSettings | null
+  capabilities?: ModelCapabilities | null
+  inputPrice?: number | null
+  outputPrice?: number | null
+  headers?: Record<string, string> | null
 }
 
-export type UpdateModelInput = Partial<CreateModelInput>
\ No newline at end of file
+export type UpdateModelInput = Partial<CreateModelInput>
+
+export type DiscoverModelsInput =
+  | { providerId: string }
+  | {
+    apiEndpoint: string
+    apiKey?: string | null
+    provider?: ProviderKind
+    headers?: Record<string, string> | null
+  }
+
+// Import of an exported model configuration file
+export type ImportModelsInput = {
+  content: string
+  apiKeys?: Record<string, string> // By provider position in the file
+  dryRun?: boolean
+}
+
+export type ImportModelsResult = {
+  plan: ImportPlan
+  createdProviders: number
+  createdModels: Model[]
+}
@@ -1,10 +1,20 @@
 import type { InferSelectModel } from 'drizzle-orm'
-import type { personas } from '../../server/database/schema/personas'
+import type { personaRevisions, personas } from '../../server/database/schema/personas'
+import type { CharacterCard } from '../../shared/cards'
+
+export type { PersonaRevisionSource } from '../../server/database/schema/personas'
+export type { CardMapping, CardSourceField, CharacterCard, TruthField } from '../../shared/cards'
 
 // Database model type (with serialized dates for client-server communication)
 export type Persona = Omit<InferSelectModel<typeof personas>, 'createdAt' | 'updatedAt'> & {
   createdAt: string
   updatedAt: string
+  affiliationIds?: string[] // IDs of affiliations this persona belongs to
+}
+
+// Revision history entry (with serialized dates for client-server communication)
+export type PersonaRevision = Omit<InferSelectModel<typeof personaRevisions>, 'createdAt'> & {
+  createdAt: string
 }
 
 // Input types for API operations
@@ -13,6 +23,15 @@ export type CreatePersonaInput = {
   universalTruth?: string | null
   internalTruth?: string | null
   externalTruth?: string | null
+  affiliationIds?: string[]
+}
+
+export type UpdatePersonaInput = Partial<CreatePersonaInput>
+
+// Character card read for review before it becomes a persona
+export type CharacterCardImport = {
+  card: CharacterCard
+  image: boolean // The card came as a PNG, its picture can become the avatar
 }
 
-export type UpdatePersonaInput = Partial<CreatePersonaInput>
\ No newline at end of file
+export type CardFormat = 'json' | 'png'
@@ -0,0 +1,36 @@
+import type { InferSelectModel } from 'drizzle-orm'
+import type { productions } from '../../server/database/schema/productions'
+import type { turns } from '../../server/database/schema/turns'
+import type { Assistant } from './assistants'
+import type { Scenario } from './scenarios'
+import type { World } from './worlds'
+
+// Database model type (with serialized dates for client-server communication)
+export type Production = Omit<InferSelectModel<typeof productions>, 'createdAt' | 'updatedAt'> & {
+  createdAt: string
+  updatedAt: string
+  assistantIds: string[] // IDs of participating assistants
+}
+
+// Conversation message (with serialized dates)
+export type Turn = Omit<InferSelectModel<typeof turns>, 'createdAt'> & {
+  createdAt: string
+}
+
+// Production with its related data, as returned by GET /api/productions/:id
+export type ProductionWithRelations = Production & {
+  world?: World
+  scenario?: Scenario
+  assistants: Assistant[]
+  turns: Turn[]
+  directives?: Record<string, string> // System prompt by assistant ID, only with showDirective
+}
+
+// Input types for API operations
+export type CreateProductionInput = {
+  name: string
+  worldId: string
+  scenarioId: string
+  assistantIds: string[]
+  showDirective?: boolean
+}
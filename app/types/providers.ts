@@ -0,0 +1,38 @@
+import type { InferSelectModel } from 'drizzle-orm'
+import type { providers } from '../../server/database/schema/providers'
+import type { OllamaLocalModel, QueueStats } from '../../server/utils/llm'
+
+export type { ProviderKind } from '../../server/utils/llm/types'
+export type { OllamaModelInfo, OllamaPullProgress } from '../../server/utils/llm'
+
+// Database model type (with serialized dates for client-server communication)
+export type Provider = Omit<InferSelectModel<typeof providers>, 'createdAt' | 'updatedAt'> & {
+  createdAt: string
+  updatedAt: string
+}
+
+// Outbound queue load (with serialized dates for client-server communication)
+export type ProviderQueue = Omit<QueueStats, 'pausedUntil'> & {
+  providerId: string
+  pausedUntil: string | null
+}
+
+// Model stored on an Ollama provider, with what uses it
+export type OllamaModel = OllamaLocalModel & {
+  modelIds: string[]
+  assistants: number
+  shared: boolean // Another provider reaches the same server
+}
+
+// Input types for API operations
+export type CreateProviderInput = {
+  name: string
+  kind: Provider['kind']
+  apiEndpoint: string
+  apiKey?: string | null
+  headers?: Record<string, string> | null
+  maxConcurrency?: number | null
+  requestsPerMinute?: number | null
+}
+
+export type UpdateProviderInput = Partial<CreateProviderInput>
@@ -0,0 +1,16 @@
+import type { InferSelectModel } from 'drizzle-orm'
+import type { scenarios } from '../../server/database/schema/scenarios'
+
+// Database model type (with serialized dates for client-server communication)
+export type Scenario = Omit<InferSelectModel<typeof scenarios>, 'createdAt' | 'updatedAt'> & {
+  createdAt: string
+  updatedAt: string
+}
+
+// Input types for API operations
+export type CreateScenarioInput = {
+  name: string
+  description: string
+}
+
+export type UpdateScenarioInput = Partial<CreateScenarioInput>
\ No newline at end of file
@@ -0,0 +1,5 @@
+export type {
+  PromptBudget,
+  TokenCounts,
+  Tokenizer,
+} from '../../server/utils/tokens'
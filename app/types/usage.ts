@@ -0,0 +1,4 @@
+export type {
+  UsageSummary,
+  UsageTotals,
+} from '../../server/utils/usage'
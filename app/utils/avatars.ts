@@ -0,0 +1,15 @@
+/**
+ * Avatar helpers for persona images
+ */
+
+/**
+ * URL of a stored avatar in one of the sizes the server keeps
+ * Returns undefined without an avatar so UAvatar falls back to initials
+ */
+export function avatarSrc(
+  url: string | null | undefined,
+  size: 64 | 128 | 256 = 64
+): string | undefined {
+  if (!url) return undefined
+  return `${url}${url.includes('?') ? '&' : '?'}size=${size}`
+}
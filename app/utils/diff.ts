@@ -0,0 +1,62 @@
+/**
+ * Word diff for comparing text revisions
+ */
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+// Beyond this many token pairs the texts are shown as replaced
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Diff two texts word by word, whitespace is kept with the words
+ * Uses the longest common subsequence, adjacent parts of one type are merged
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean)
+  const b = after.split(/(\s+)/).filter(Boolean)
+  const parts: DiffPart[] = []
+
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last?.type === type) last.text += text
+    else parts.push({ type, text })
+  }
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) push('removed', before)
+    if (after) push('added', after)
+    return parts
+  }
+
+  // lengths[i * width + j]: common subsequence length of a[i..] and b[j..]
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1]! + 1
+        : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!)
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]!)
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+      push('removed', a[i++]!)
+    } else {
+      push('added', b[j++]!)
+    }
+  }
+  while (i < a.length) push('removed', a[i++]!)
+  while (j < b.length) push('added', b[j++]!)
+
+  return parts
+}
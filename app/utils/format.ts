@@ -0,0 +1,36 @@
+/**
+ * Number formatting helpers for usage figures and sizes
+ */
+
+/**
+ * Format a token or request count with thousands separators
+ */
+export function formatCount(value: number): string {
+  return value.toLocaleString()
+}
+
+/**
+ * Format a cost, prices are unitless so no currency symbol is added
+ * Null means nothing was priced
+ */
+export function formatCost(value: number | null): string {
+  if (value === null) return '–'
+  return value.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 4,
+  })
+}
+
+/**
+ * Format a byte count with a binary unit, e.g. "4.7 GB"
+ */
+export function formatBytes(value: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let size = value
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024
+    unit++
+  }
+  return `${size.toLocaleString(undefined, { maximumFractionDigits: unit === 0 ? 0 : 1 })} ${units[unit]}`
+}
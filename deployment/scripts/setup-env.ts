@@ -41,6 +41,7 @@ async function main() {
   console.log("     - NUXT_OIDC_AUTH_SESSION_SECRET: openssl rand -hex 32")
   console.log("     - NUXT_OIDC_SESSION_SECRET: openssl rand -hex 32") 
   console.log("     - NUXT_OIDC_TOKEN_KEY: openssl rand -hex 16")
+  console.log("   • ENCRYPTION_KEY - Run: openssl rand -hex 32")
   
   console.log("\n💡 Optional settings:")
   console.log("   • Domain configuration (defaults to *.localhost)")
@@ -28,6 +28,14 @@ export default defineNuxtConfig({
     '@pinia/nuxt',
     'nuxt-oidc-auth',
   ],
+  nitro: {
+    experimental: {
+      tasks: true,
+    },
+    scheduledTasks: {
+      '*/15 * * * *': ['models:health'], // Probe every model every 15 minutes
+    },
+  },
   oidc: {
     defaultProvider: 'zitadel',
     providers: {
@@ -0,0 +1,49 @@
+/**
+ * DELETE /api/affiliations/:id
+ * 
+ * Delete an affiliation for the authenticated user
+ * Memberships are removed through the cascading foreign key
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { affiliations } from '../../database/schema/affiliations'
+import { eq, and } from 'drizzle-orm'
+import { deleteResponse, handleApiError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get affiliation ID from route params
+  const affiliationId = getRouterParam(event, 'id')
+  if (!affiliationId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Affiliation ID is required'
+    })
+  }
+  
+  try {
+    // Delete the affiliation
+    const [deletedAffiliation] = await db
+      .delete(affiliations)
+      .where(
+        and(
+          eq(affiliations.id, affiliationId),
+          eq(affiliations.userId, userId)
+        )
+      )
+      .returning()
+    
+    if (!deletedAffiliation) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Affiliation not found'
+      })
+    }
+    
+    return deleteResponse('Affiliation deleted successfully')
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete affiliation')
+  }
+})
@@ -0,0 +1,84 @@
+/**
+ * PUT /api/affiliations/:id
+ * 
+ * Update an existing affiliation for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { affiliations } from '../../database/schema/affiliations'
+import { eq, and } from 'drizzle-orm'
+import { z } from 'zod'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+// Validation schema for updating an affiliation
+const updateAffiliationSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255).optional(),
+  universalTruth: z.string().nullable().optional(),
+  internalTruth: z.string().nullable().optional(),
+  externalTruth: z.string().nullable().optional(),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get affiliation ID from route params
+  const affiliationId = getRouterParam(event, 'id')
+  if (!affiliationId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Affiliation ID is required'
+    })
+  }
+  
+  // Parse and validate request body
+  const body = await readBody(event)
+  
+  let validatedData
+  try {
+    validatedData = updateAffiliationSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
+  
+  // Check if there's anything to update
+  if (Object.keys(validatedData).length === 0) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'No fields to update'
+    })
+  }
+  
+  try {
+    // Update the affiliation
+    const result = await db
+      .update(affiliations)
+      .set({
+        ...validatedData,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(affiliations.id, affiliationId),
+          eq(affiliations.userId, userId)
+        )
+      )
+      .returning()
+    
+    if (!result[0]) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Affiliation not found'
+      })
+    }
+    
+    return successResponse(result[0], 'Affiliation updated successfully')
+  } catch (error) {
+    return handleApiError(error, 'Failed to update affiliation')
+  }
+})
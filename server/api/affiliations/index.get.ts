@@ -0,0 +1,28 @@
+/**
+ * GET /api/affiliations
+ * 
+ * List all affiliations for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { affiliations } from '../../database/schema/affiliations'
+import { desc, eq } from 'drizzle-orm'
+import { listResponse, handleApiError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  try {
+    // Get all affiliations for the user
+    const userAffiliations = await db
+      .select()
+      .from(affiliations)
+      .where(eq(affiliations.userId, userId))
+      .orderBy(desc(affiliations.createdAt))
+    
+    return listResponse(userAffiliations, 'affiliations')
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch affiliations')
+  }
+})
@@ -0,0 +1,63 @@
+/**
+ * POST /api/affiliations
+ * 
+ * Create a new affiliation for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { affiliations } from '../../database/schema/affiliations'
+import { z } from 'zod'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+// Validation schema for creating an affiliation
+const createAffiliationSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  universalTruth: z.string().nullable().optional(),
+  internalTruth: z.string().nullable().optional(),
+  externalTruth: z.string().nullable().optional(),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Parse and validate request body
+  const body = await readBody(event)
+  
+  let validatedData
+  try {
+    validatedData = createAffiliationSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
+  
+  try {
+    // Create the affiliation
+    const result = await db
+      .insert(affiliations)
+      .values({
+        userId,
+        name: validatedData.name,
+        universalTruth: validatedData.universalTruth || null,
+        internalTruth: validatedData.internalTruth || null,
+        externalTruth: validatedData.externalTruth || null,
+      })
+      .returning()
+    
+    if (!result[0]) {
+      throw createError({
+        statusCode: 500,
+        statusMessage: 'Failed to create affiliation'
+      })
+    }
+    
+    return successResponse(result[0], 'Affiliation created successfully')
+  } catch (error) {
+    return handleApiError(error, 'Failed to create affiliation')
+  }
+})
@@ -2,11 +2,13 @@
  * DELETE /api/assistants/:id
  * 
  * Delete an assistant for the authenticated user
+ * Refused while a production would be left with fewer than 2 assistants
  */
 import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
 import { assistants } from '../../database/schema/assistants'
 import { eq, and } from 'drizzle-orm'
+import { leavesProductionUnderstaffed } from '../../utils/productions'
 import { deleteResponse, handleApiError } from '../../utils/responses'
 
 export default defineEventHandler(async (event) => {
@@ -24,14 +26,24 @@ export default defineEventHandler(async (event) => {
   }
   
   try {
-    // Delete the assistant (will only delete if it belongs to the user)
-    const result = await db
-      .delete(assistants)
-      .where(and(
-        eq(assistants.id, assistantId),
-        eq(assistants.userId, userId)
-      ))
-      .returning({ id: assistants.id })
+    const result = await db.transaction(async (tx) => {
+      if (await leavesProductionUnderstaffed(tx, userId, [assistantId])) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'A production needs this assistant to keep 2 participants',
+          data: { code: 'ASSISTANT_IN_USE' }
+        })
+      }
+      
+      // Delete the assistant (will only delete if it belongs to the user)
+      return tx
+        .delete(assistants)
+        .where(and(
+          eq(assistants.id, assistantId),
+          eq(assistants.userId, userId)
+        ))
+        .returning({ id: assistants.id })
+    })
     
     if (!result.length) {
       throw createError({
@@ -11,6 +11,13 @@ import { models } from '../../database/schema/models'
 import { eq, and } from 'drizzle-orm'
 import { z } from 'zod'
 import type { UpdateAssistantInput } from '~/types/assistants'
+import { compactModelSettings } from '../../utils/settings'
+import {
+  getFallbackModelIdsByAssistant,
+  requireOwnedModels,
+  setAssistantFallbacks,
+} from '../../utils/assistants'
+import { modelSettingsSchema } from '../../../shared/validation'
 import { successResponse, handleApiError, isDatabaseConstraintError } from '../../utils/responses'
 
 // Validation schema
@@ -18,6 +25,8 @@ const updateAssistantSchema = z.object({
   personaId: z.string().uuid('Invalid persona ID').optional(),
   modelId: z.string().uuid('Invalid model ID').optional(),
   name: z.string().nullable().optional(),
+  configOverride: modelSettingsSchema.nullable().optional(),
+  fallbackModelIds: z.array(z.string().uuid('Invalid model ID')).max(5, 'At most 5 fallback models').optional(),
 })
 
 export default defineEventHandler(async (event) => {
@@ -38,7 +47,17 @@ export default defineEventHandler(async (event) => {
   const body = await readBody<UpdateAssistantInput>(event)
   
   // Validate input
-  const validatedData = updateAssistantSchema.parse(body)
+  let validatedData
+  try {
+    validatedData = updateAssistantSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
   
   try {
     // Check if assistant exists and belongs to user
@@ -92,18 +111,47 @@ export default defineEventHandler(async (event) => {
       }
     }
     
-    // Update the assistant
-    const [updatedAssistant] = await db
-      .update(assistants)
-      .set({
-        ...validatedData,
-        updatedAt: new Date(),
+    const { fallbackModelIds, ...assistantData } = validatedData
+    
+    // Verify the fallback models belong to the user
+    if (fallbackModelIds) {
+      await requireOwnedModels(userId, fallbackModelIds)
+    }
+    
+    // Update the assistant and its fallback chain together
+    const updatedAssistant = await db.transaction(async (tx) => {
+      const [result] = await tx
+        .update(assistants)
+        .set({
+          ...assistantData,
+          ...(assistantData.configOverride !== undefined && {
+            configOverride: compactModelSettings(assistantData.configOverride),
+          }),
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(assistants.id, assistantId),
+          eq(assistants.userId, userId)
+        ))
+        .returning()
+      
+      // A new primary model may not stay in the chain, so it is rewritten too
+      if (result && (fallbackModelIds || assistantData.modelId)) {
+        const chain = fallbackModelIds
+          ?? (await getFallbackModelIdsByAssistant([result.id])).get(result.id)
+          ?? []
+        await setAssistantFallbacks(tx, result.id, result.modelId, chain)
+      }
+      
+      return result
+    })
+    
+    if (!updatedAssistant) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Assistant not found'
       })
-      .where(and(
-        eq(assistants.id, assistantId),
-        eq(assistants.userId, userId)
-      ))
-      .returning()
+    }
     
     // Fetch the assistant with joined data
     const [assistantWithRelations] = await db
@@ -118,11 +166,14 @@ export default defineEventHandler(async (event) => {
       .where(eq(assistants.id, updatedAssistant.id))
       .limit(1)
     
+    const chains = await getFallbackModelIdsByAssistant([updatedAssistant.id])
+    
     // Transform and return
     const transformedAssistant = {
       ...assistantWithRelations.assistant,
       persona: assistantWithRelations.persona || undefined,
       model: assistantWithRelations.model || undefined,
+      fallbackModelIds: chains.get(updatedAssistant.id) || [],
     }
     
     return successResponse(transformedAssistant, 'Assistant updated successfully')
@@ -2,6 +2,7 @@
  * GET /api/assistants
  * 
  * List all assistants for the authenticated user with related persona and model data
+ * and their fallback model IDs in chain order
  */
 import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
@@ -9,6 +10,7 @@ import { assistants } from '../../database/schema/assistants'
 import { personas } from '../../database/schema/personas'
 import { models } from '../../database/schema/models'
 import { desc, eq } from 'drizzle-orm'
+import { getFallbackModelIdsByAssistant } from '../../utils/assistants'
 import { listResponse, handleApiError } from '../../utils/responses'
 
 export default defineEventHandler(async (event) => {
@@ -29,11 +31,17 @@ export default defineEventHandler(async (event) => {
       .where(eq(assistants.userId, userId))
       .orderBy(desc(assistants.createdAt))
     
+    // Attach fallback chains
+    const chains = await getFallbackModelIdsByAssistant(
+      userAssistants.map(({ assistant }) => assistant.id)
+    )
+    
     // Transform the data to match the Assistant type structure
     const transformedAssistants = userAssistants.map(({ assistant, persona, model }) => ({
       ...assistant,
       persona: persona || undefined,
       model: model || undefined,
+      fallbackModelIds: chains.get(assistant.id) || [],
     }))
     
     return listResponse(transformedAssistants, 'assistants')
@@ -11,6 +11,13 @@ import { models } from '../../database/schema/models'
 import { eq } from 'drizzle-orm'
 import { z } from 'zod'
 import type { CreateAssistantInput } from '~/types/assistants'
+import { compactModelSettings } from '../../utils/settings'
+import {
+  getFallbackModelIdsByAssistant,
+  requireOwnedModels,
+  setAssistantFallbacks,
+} from '../../utils/assistants'
+import { modelSettingsSchema } from '../../../shared/validation'
 import { successResponse, handleApiError, isDatabaseConstraintError } from '../../utils/responses'
 
 // Validation schema
@@ -18,6 +25,8 @@ const createAssistantSchema = z.object({
   personaId: z.string().uuid('Invalid persona ID'),
   modelId: z.string().uuid('Invalid model ID'),
   name: z.string().optional().nullable(),
+  configOverride: modelSettingsSchema.nullable().optional(),
+  fallbackModelIds: z.array(z.string().uuid('Invalid model ID')).max(5, 'At most 5 fallback models').optional(),
 })
 
 export default defineEventHandler(async (event) => {
@@ -28,7 +37,17 @@ export default defineEventHandler(async (event) => {
   const body = await readBody<CreateAssistantInput>(event)
   
   // Validate input
-  const validatedData = createAssistantSchema.parse(body)
+  let validatedData
+  try {
+    validatedData = createAssistantSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
   
   try {
     // Verify the persona belongs to the user
@@ -61,16 +80,34 @@ export default defineEventHandler(async (event) => {
       })
     }
     
-    // Create the assistant
-    const [newAssistant] = await db
-      .insert(assistants)
-      .values({
-        userId,
-        personaId: validatedData.personaId,
-        modelId: validatedData.modelId,
-        name: validatedData.name || null,
-      })
-      .returning()
+    // Verify the fallback models belong to the user
+    const fallbackModelIds = validatedData.fallbackModelIds || []
+    await requireOwnedModels(userId, fallbackModelIds)
+    
+    // Create the assistant and its fallback chain together
+    const newAssistant = await db.transaction(async (tx) => {
+      const [createdAssistant] = await tx
+        .insert(assistants)
+        .values({
+          userId,
+          personaId: validatedData.personaId,
+          modelId: validatedData.modelId,
+          name: validatedData.name || null,
+          configOverride: compactModelSettings(validatedData.configOverride),
+        })
+        .returning()
+      
+      if (!createdAssistant) {
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Failed to create assistant'
+        })
+      }
+      
+      await setAssistantFallbacks(tx, createdAssistant.id, createdAssistant.modelId, fallbackModelIds)
+      
+      return createdAssistant
+    })
     
     // Fetch the assistant with joined data
     const [assistantWithRelations] = await db
@@ -85,11 +122,14 @@ export default defineEventHandler(async (event) => {
       .where(eq(assistants.id, newAssistant.id))
       .limit(1)
     
+    const chains = await getFallbackModelIdsByAssistant([newAssistant.id])
+    
     // Transform and return
     const transformedAssistant = {
       ...assistantWithRelations.assistant,
       persona: assistantWithRelations.persona || undefined,
       model: assistantWithRelations.model || undefined,
+      fallbackModelIds: chains.get(newAssistant.id) || [],
     }
     
     return successResponse(transformedAssistant, 'Assistant created successfully')
@@ -2,11 +2,15 @@
  * DELETE /api/models/:id
  * 
  * Delete a model configuration
+ * Its assistants go with it, so the delete is refused while a production
+ * would be left with fewer than 2 assistants
  */
 import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
 import { models } from '../../database/schema/models'
+import { assistants } from '../../database/schema/assistants'
 import { eq, and } from 'drizzle-orm'
+import { leavesProductionUnderstaffed } from '../../utils/productions'
 import { deleteResponse, handleApiError } from '../../utils/responses'
 
 export default defineEventHandler(async (event) => {
@@ -40,13 +44,32 @@ export default defineEventHandler(async (event) => {
   }
 
   try {
-    // Delete the model
-    await db
-      .delete(models)
-      .where(and(
-        eq(models.id, modelId),
-        eq(models.userId, userId)
-      ))
+    await db.transaction(async (tx) => {
+      const modelAssistants = await tx
+        .select({ id: assistants.id })
+        .from(assistants)
+        .where(and(
+          eq(assistants.modelId, modelId),
+          eq(assistants.userId, userId)
+        ))
+      
+      const assistantIds = modelAssistants.map(assistant => assistant.id)
+      if (await leavesProductionUnderstaffed(tx, userId, assistantIds)) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'A production needs an assistant of this model to keep 2 participants',
+          data: { code: 'MODEL_IN_USE' }
+        })
+      }
+      
+      // Delete the model
+      await tx
+        .delete(models)
+        .where(and(
+          eq(models.id, modelId),
+          eq(models.userId, userId)
+        ))
+    })
     
     return deleteResponse('Model deleted successfully')
   } catch (error) {
@@ -8,17 +8,13 @@ import { requireAuth } from '../../utils/auth'
 import { models } from '../../database/schema/models'
 import { eq, and } from 'drizzle-orm'
 import { z } from 'zod'
-import { encrypt, isMaskedKey, maskApiKey } from '../../utils/crypto'
-import { successResponse, handleApiError } from '../../utils/responses'
+import { compactModelSettings } from '../../utils/settings'
+import { requireOwnedProvider } from '../../utils/providers'
+import { updateModelSchema as sharedUpdateModelSchema } from '../../../shared/validation'
+import { successResponse, handleApiError, isDatabaseConstraintError } from '../../utils/responses'
 
 // Validation schema for updates (all fields optional)
-const updateModelSchema = z.object({
-  name: z.string().min(1).max(100).optional(),
-  apiEndpoint: z.string().url().optional(),
-  apiKey: z.string().nullable().optional(),
-  modelId: z.string().min(1).optional(),
-  isDefault: z.boolean().optional()
-})
+const updateModelSchema = sharedUpdateModelSchema.partial()
 
 export default defineEventHandler(async (event) => {
   // Require authentication
@@ -66,18 +62,17 @@ export default defineEventHandler(async (event) => {
   }
 
   try {
-    // Prepare update data, handling API key encryption/masking
+    // Moving to another provider requires owning it
+    if (validatedData.providerId) {
+      await requireOwnedProvider(userId, validatedData.providerId)
+    }
+    
+    // Prepare update data
     const updateData: Record<string, unknown> = { ...validatedData, updatedAt: new Date() }
     
-    // Handle API key: if it's masked, don't update it; if it's new, encrypt it
-    if ('apiKey' in validatedData) {
-      if (isMaskedKey(validatedData.apiKey)) {
-        // Don't update the key if it's the masked placeholder
-        delete updateData.apiKey
-      } else {
-        // New key provided - encrypt it
-        updateData.apiKey = encrypt(validatedData.apiKey)
-      }
+    // Store only the default settings that are actually set
+    if ('defaultSettings' in validatedData) {
+      updateData.defaultSettings = compactModelSettings(validatedData.defaultSettings)
     }
     
     // Update the model
@@ -97,14 +92,16 @@ export default defineEventHandler(async (event) => {
       })
     }
     
-    // Mask API key before returning
-    const maskedModel = {
-      ...updatedModel,
-      apiKey: maskApiKey(updatedModel.apiKey)
+    return successResponse(updatedModel, 'Model updated successfully')
+  } catch (error) {
+    // Check for the same model ID already configured on the provider
+    if (isDatabaseConstraintError(error) && error.code === '23505') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'Model is already configured for this provider'
+      })
     }
     
-    return successResponse(maskedModel, 'Model updated successfully')
-  } catch (error) {
     return handleApiError(error, 'Failed to update model')
   }
 })
\ No newline at end of file
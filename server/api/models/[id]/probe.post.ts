@@ -0,0 +1,40 @@
+/**
+ * POST /api/models/:id/probe
+ * 
+ * Probe which features a model supports: system prompts, streaming,
+ * JSON mode and tool calling
+ * Stores the results in the model's capabilities and returns the
+ * updated model with the individual checks
+ */
+import { requireAuth } from '../../../utils/auth'
+import { probeModels } from '../../../utils/capabilities'
+import { handleApiError, successResponse } from '../../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get model ID from route params
+  const modelId = getRouterParam(event, 'id')
+  if (!modelId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Model ID is required'
+    })
+  }
+
+  try {
+    const [result] = await probeModels(userId, [modelId])
+    
+    if (!result) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Model not found'
+      })
+    }
+    
+    return successResponse(result, 'Capabilities probed')
+  } catch (error) {
+    return handleApiError(error, 'Failed to probe model capabilities')
+  }
+})
@@ -0,0 +1,74 @@
+/**
+ * POST /api/models/discover
+ * 
+ * Discover the models available at a provider endpoint
+ * Runs server-side so API keys never reach third parties from the browser
+ */
+import { requireAuth } from '../../utils/auth'
+import { z } from 'zod'
+import { createLLMClient, describeLLMError, detectProvider, LLMError } from '../../utils/llm'
+import type { ClientConfig } from '../../utils/llm'
+import { getProviderConnection, requireOwnedProvider } from '../../utils/providers'
+import { assertOutboundUrl } from '../../utils/outbound'
+import { providerHeadersSchema, providerKindSchema } from '../../../shared/validation'
+import { successResponse } from '../../utils/responses'
+
+// Validation schema - accept either a saved provider or connection details
+const discoverModelsSchema = z.union([
+  // Discover through a saved provider
+  z.object({
+    providerId: z.string().uuid('Must be a valid provider ID')
+  }),
+  // Discover with connection details (for providers before saving)
+  z.object({
+    apiEndpoint: z.string().url('Must be a valid URL'),
+    apiKey: z.string().optional().nullable(),
+    provider: providerKindSchema.optional(),
+    headers: providerHeadersSchema.nullable().optional()
+  })
+])
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  // Validate request body
+  const body = await readBody(event)
+  
+  let validatedData: z.infer<typeof discoverModelsSchema>
+  try {
+    validatedData = discoverModelsSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid request data'
+    })
+  }
+
+  const config: ClientConfig = 'providerId' in validatedData
+    ? getProviderConnection(await requireOwnedProvider(userId, validatedData.providerId))
+    : validatedData
+  await assertOutboundUrl(config.apiEndpoint)
+  const provider = config.provider || detectProvider(config.apiEndpoint)
+  
+  try {
+    const client = createLLMClient({ ...config, provider })
+    
+    const discovered = await client.listModels()
+    
+    return successResponse(
+      discovered,
+      `Found ${discovered.length} models`,
+      { count: discovered.length, meta: { provider } }
+    )
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof LLMError
+        ? describeLLMError(error)
+        : 'Model discovery failed'
+    })
+  }
+})
@@ -0,0 +1,49 @@
+/**
+ * GET /api/models/export
+ * 
+ * Download the user's providers and models as a portable file
+ * API keys are replaced by a placeholder
+ * 
+ * Query: format - json (default) or yaml
+ */
+import { requireAuth } from '../../utils/auth'
+import { z } from 'zod'
+import { buildModelExport, serializeModelExport } from '../../utils/transfer'
+import { handleApiError } from '../../utils/responses'
+
+// Validation schema for the query string
+const exportQuerySchema = z.object({
+  format: z.enum(['json', 'yaml'], { errorMap: () => ({ message: 'Format must be json or yaml' }) }).default('json'),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  let validatedQuery: z.infer<typeof exportQuerySchema>
+  try {
+    validatedQuery = exportQuerySchema.parse(getQuery(event))
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid query parameters'
+    })
+  }
+  
+  try {
+    const data = await buildModelExport(userId)
+    const { format } = validatedQuery
+    const date = new Date().toISOString().slice(0, 10)
+    
+    setResponseHeaders(event, {
+      'Content-Type': format === 'yaml' ? 'application/yaml' : 'application/json',
+      'Content-Disposition': `attachment; filename="models-${date}.${format}"`
+    })
+    
+    return serializeModelExport(data, format)
+  } catch (error) {
+    return handleApiError(error, 'Failed to export models')
+  }
+})
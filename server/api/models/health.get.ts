@@ -0,0 +1,34 @@
+/**
+ * GET /api/models/health
+ * 
+ * Health status and the last day of probe history for every model
+ * of the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { models } from '../../database/schema/models'
+import { eq } from 'drizzle-orm'
+import { getModelHealth } from '../../utils/health'
+import { listResponse, handleApiError } from '../../utils/responses'
+
+// History window shown in the sparklines
+const HISTORY_HOURS = 24
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  try {
+    const userModels = await db
+      .select({ id: models.id })
+      .from(models)
+      .where(eq(models.userId, userId))
+    
+    const since = new Date(Date.now() - HISTORY_HOURS * 60 * 60 * 1000)
+    const health = await getModelHealth(userModels.map(model => model.id), since)
+    
+    return listResponse(health, 'model health records')
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch model health')
+  }
+})
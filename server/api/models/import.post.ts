@@ -0,0 +1,75 @@
+/**
+ * POST /api/models/import
+ * 
+ * Import providers and models from an exported file
+ * A dry run only returns the plan: reused providers, providers that
+ * need their API key entered and models that are already configured
+ */
+import { requireAuth } from '../../utils/auth'
+import { z } from 'zod'
+import { applyModelImport, parseModelExport, planModelImport } from '../../utils/transfer'
+import { assertOutboundUrl } from '../../utils/outbound'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+// Validation schema for the upload
+const importModelsSchema = z.object({
+  content: z.string().min(1, 'File is empty').max(1_000_000, 'File is too large'),
+  // Keys for new providers, by their position in the file
+  apiKeys: z.record(z.string().regex(/^\d+$/), z.string()).optional(),
+  dryRun: z.boolean().optional()
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  // Validate request body
+  const body = await readBody(event)
+  
+  let validatedData: z.infer<typeof importModelsSchema>
+  try {
+    validatedData = importModelsSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid request data'
+    })
+  }
+
+  const data = parseModelExport(validatedData.content)
+
+  try {
+    const plan = await planModelImport(userId, data)
+    
+    // New providers are held to the outbound URL policy like edited ones
+    for (const provider of plan.providers.filter(provider => !provider.existingProviderId)) {
+      await assertOutboundUrl(provider.apiEndpoint)
+    }
+    
+    if (validatedData.dryRun) {
+      return successResponse({ plan, createdProviders: 0, createdModels: [] }, 'Import checked')
+    }
+    
+    if (plan.models.every(model => model.duplicate)) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'All models in the file are already configured'
+      })
+    }
+    
+    const result = await applyModelImport(userId, data, plan, validatedData.apiKeys ?? {})
+    
+    return successResponse(
+      { plan, ...result },
+      `Successfully imported ${result.createdModels.length} model(s)`,
+      {
+        count: result.createdModels.length,
+        meta: { skipped: plan.models.filter(model => model.duplicate).length }
+      }
+    )
+  } catch (error) {
+    return handleApiError(error, 'Failed to import models')
+  }
+})
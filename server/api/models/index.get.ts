@@ -7,7 +7,6 @@ import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
 import { models } from '../../database/schema/models'
 import { desc, eq } from 'drizzle-orm'
-import { maskApiKey } from '../../utils/crypto'
 import { listResponse, handleApiError } from '../../utils/responses'
 
 export default defineEventHandler(async (event) => {
@@ -22,13 +21,7 @@ export default defineEventHandler(async (event) => {
       .where(eq(models.userId, userId))
       .orderBy(desc(models.isDefault), desc(models.createdAt))
     
-    // Mask API keys before sending to client
-    const maskedModels = userModels.map(model => ({
-      ...model,
-      apiKey: maskApiKey(model.apiKey)
-    }))
-    
-    return listResponse(maskedModels, 'models')
+    return listResponse(userModels, 'models')
   } catch (error) {
     return handleApiError(error, 'Failed to fetch models')
   }
@@ -3,22 +3,24 @@
  * 
  * Create one or more model configurations
  * Accepts either a single model object or an array of models
+ * 
+ * Query: probe - true to probe the capabilities of the new models in
+ * the background, the results land on the models when done
  */
 import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
 import { models } from '../../database/schema/models'
+import { providers } from '../../database/schema/providers'
 import { z } from 'zod'
-import { eq, and } from 'drizzle-orm'
-import { encrypt, maskApiKey } from '../../utils/crypto'
+import { eq, and, inArray } from 'drizzle-orm'
+import { compactModelSettings } from '../../utils/settings'
+import { startCapabilityProbe } from '../../utils/capabilities'
+import { createModelSchema } from '../../../shared/validation'
 import { successResponse, handleApiError } from '../../utils/responses'
 
-// Validation schema for a single model
-const createModelSchema = z.object({
-  name: z.string().min(1, 'Name is required').max(100),
-  apiEndpoint: z.string().url('Must be a valid URL'),
-  apiKey: z.string().optional().nullable(),
-  modelId: z.string().min(1, 'Model ID is required'),
-  isDefault: z.boolean().optional()
+// Validation schema for the query string
+const createQuerySchema = z.object({
+  probe: z.enum(['true', 'false'], { errorMap: () => ({ message: 'Probe must be true or false' }) }).optional(),
 })
 
 // Accept either single model or array of models
@@ -31,6 +33,18 @@ export default defineEventHandler(async (event) => {
   // Require authentication
   const userId = requireAuth(event)
 
+  let validatedQuery: z.infer<typeof createQuerySchema>
+  try {
+    validatedQuery = createQuerySchema.parse(getQuery(event))
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid query parameters'
+    })
+  }
+
   // Validate request body
   const body = await readBody(event)
   
@@ -59,19 +73,36 @@ export default defineEventHandler(async (event) => {
   }
 
   try {
-    // Check for existing models with same modelId and apiEndpoint to prevent duplicates
+    // Ensure every referenced provider belongs to the user
+    const providerIds = [...new Set(modelsToCreate.map(m => m.providerId))]
+    const ownedProviders = await db
+      .select({ id: providers.id })
+      .from(providers)
+      .where(and(
+        inArray(providers.id, providerIds),
+        eq(providers.userId, userId)
+      ))
+    
+    if (ownedProviders.length !== providerIds.length) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Provider not found'
+      })
+    }
+    
+    // Check for existing models with same modelId and provider to prevent duplicates
     const existingModels = await db
-      .select({ modelId: models.modelId, apiEndpoint: models.apiEndpoint })
+      .select({ modelId: models.modelId, providerId: models.providerId })
       .from(models)
       .where(eq(models.userId, userId))
     
     const existingSet = new Set(
-      existingModels.map(m => `${m.modelId}|${m.apiEndpoint}`)
+      existingModels.map(m => `${m.modelId}|${m.providerId}`)
     )
     
     // Filter out duplicates
     const uniqueModels = modelsToCreate.filter(m => 
-      !existingSet.has(`${m.modelId}|${m.apiEndpoint}`)
+      !existingSet.has(`${m.modelId}|${m.providerId}`)
     )
     
     if (uniqueModels.length === 0) {
@@ -87,33 +118,40 @@ export default defineEventHandler(async (event) => {
       .values(uniqueModels.map(model => ({
         userId,
         name: model.name,
-        apiEndpoint: model.apiEndpoint,
-        apiKey: encrypt(model.apiKey) || null,
+        providerId: model.providerId,
         modelId: model.modelId,
-        isDefault: model.isDefault || false
+        isDefault: model.isDefault || false,
+        contextLength: model.contextLength ?? null,
+        maxOutputTokens: model.maxOutputTokens ?? null,
+        defaultSettings: compactModelSettings(model.defaultSettings),
+        capabilities: model.capabilities ?? null,
+        inputPrice: model.inputPrice ?? null,
+        outputPrice: model.outputPrice ?? null,
+        headers: model.headers ?? null
       })))
       .returning()
     
-    // Mask API keys before returning
-    const maskedCreatedModels = createdModels.map(model => ({
-      ...model,
-      apiKey: maskApiKey(model.apiKey)
-    }))
+    // Runs after the response, the client picks the results up later
+    const probing = validatedQuery.probe === 'true'
+    if (probing) {
+      startCapabilityProbe(userId, createdModels.map(model => model.id))
+    }
     
     // Return appropriate response based on input type
     if (Array.isArray(validatedData)) {
       return successResponse(
-        maskedCreatedModels,
-        `Successfully created ${maskedCreatedModels.length} model(s)`,
+        createdModels,
+        `Successfully created ${createdModels.length} model(s)`,
         {
-          count: maskedCreatedModels.length,
-          meta: { skipped: modelsToCreate.length - uniqueModels.length }
+          count: createdModels.length,
+          meta: { skipped: modelsToCreate.length - uniqueModels.length, probing }
         }
       )
     } else {
       return successResponse(
-        maskedCreatedModels[0],
-        'Model created successfully'
+        createdModels[0],
+        'Model created successfully',
+        { meta: { probing } }
       )
     }
   } catch (error) {
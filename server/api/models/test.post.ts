@@ -2,18 +2,25 @@
  * POST /api/models/test
  * 
  * Test a model configuration by making a server-side API call
+ * Returns a diagnostic report covering reachability, TLS, the API key,
+ * the model ID and the generation speed
  */
 import { requireAuth } from '../../utils/auth'
 import { z } from 'zod'
-import { decrypt } from '../../utils/crypto'
+import type { ClientConfig } from '../../utils/llm'
+import { diagnoseModel } from '../../utils/diagnostics'
+import { providerHeadersSchema } from '../../../shared/validation'
+import { getModelConnection, requireOwnedProvider } from '../../utils/providers'
+import { recordUsage } from '../../utils/usage'
+import { successResponse } from '../../utils/responses'
 
 // Validation schema - accept either model data or model ID
 const testModelSchema = z.union([
-  // Test with model data (for new models before saving)
+  // Test with model data (for unsaved changes)
   z.object({
-    apiEndpoint: z.string().url('Must be a valid URL'),
-    apiKey: z.string().optional().nullable(),
-    modelId: z.string().min(1, 'Model ID is required')
+    providerId: z.string().uuid('Must be a valid provider ID'),
+    modelId: z.string().min(1, 'Model ID is required'),
+    headers: providerHeadersSchema.nullable().optional()
   }),
   // Test existing model by ID
   z.object({
@@ -42,9 +49,10 @@ export default defineEventHandler(async (event) => {
   }
 
   let testConfig: {
-    apiEndpoint: string
-    apiKey: string | null
+    connection: ClientConfig
     modelId: string
+    // Saved model the usage is booked against
+    model?: { id: string; inputPrice: number | null; outputPrice: number | null }
   }
 
   // Handle both new model data and existing model ID
@@ -52,11 +60,20 @@ export default defineEventHandler(async (event) => {
     // Test existing model - fetch from database
     const { db } = await import('../../utils/db')
     const { models } = await import('../../database/schema/models')
+    const { providers } = await import('../../database/schema/providers')
     const { eq, and } = await import('drizzle-orm')
     
     const [existingModel] = await db
-      .select()
+      .select({
+        id: models.id,
+        modelId: models.modelId,
+        inputPrice: models.inputPrice,
+        outputPrice: models.outputPrice,
+        headers: models.headers,
+        provider: providers,
+      })
       .from(models)
+      .innerJoin(providers, eq(models.providerId, providers.id))
       .where(and(
         eq(models.id, validatedData.modelId),
         eq(models.userId, userId)
@@ -71,132 +88,28 @@ export default defineEventHandler(async (event) => {
     }
     
     testConfig = {
-      apiEndpoint: existingModel.apiEndpoint,
-      apiKey: decrypt(existingModel.apiKey),
-      modelId: existingModel.modelId
+      connection: getModelConnection(existingModel.provider, existingModel),
+      modelId: existingModel.modelId,
+      model: existingModel
     }
   } else {
-    // Test with provided model data
+    // Test with provided model data against a saved provider
+    const provider = await requireOwnedProvider(userId, validatedData.providerId)
     testConfig = {
-      apiEndpoint: validatedData.apiEndpoint,
-      apiKey: validatedData.apiKey || null,
+      connection: getModelConnection(provider, { headers: validatedData.headers ?? null }),
       modelId: validatedData.modelId
     }
   }
 
-  try {
-    // Prepare test prompt based on provider
-    let testPrompt: Record<string, unknown>
-    let apiUrl = testConfig.apiEndpoint
-    
-    // Ensure URL ends with /
-    if (!apiUrl.endsWith('/')) {
-      apiUrl += '/'
-    }
-    
-    // Prepare headers
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json'
-    }
-    
-    if (testConfig.apiEndpoint.includes('anthropic.com')) {
-      // Anthropic format
-      apiUrl += 'messages'
-      testPrompt = {
-        model: testConfig.modelId,
-        messages: [
-          {
-            role: 'user',
-            content: 'Hello! Please respond with a simple greeting to confirm you are working.'
-          }
-        ],
-        system: 'You are a helpful assistant. Please respond with a brief greeting.',
-        max_tokens: 50,
-        temperature: 0.7
-      }
-      
-      if (testConfig.apiKey) {
-        headers['x-api-key'] = testConfig.apiKey
-        headers['anthropic-version'] = '2023-06-01'
-      }
-    } else {
-      // OpenAI format (default for LMStudio, OpenAI, etc.)
-      apiUrl += 'chat/completions'
-      testPrompt = {
-        model: testConfig.modelId,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful assistant. Please respond with a brief greeting.'
-          },
-          {
-            role: 'user',
-            content: 'Hello! Please respond with a simple greeting to confirm you are working.'
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 50
-      }
-      
-      if (testConfig.apiKey) {
-        headers['Authorization'] = `Bearer ${testConfig.apiKey}`
-      }
-    }
-
-    const response = await $fetch(apiUrl, {
-      method: 'POST',
-      headers,
-      body: testPrompt,
-      timeout: 30000 // 30 second timeout for local models that need to load
-    })
-
-    // Check if we got a valid response
-    const responseData = response as Record<string, unknown>
-    if (response && (responseData.choices || responseData.content)) {
-      const choices = responseData.choices as Array<{ message?: { content?: string } }>
-      const content = responseData.content as string
-      
-      return {
-        success: true,
-        message: 'Connection successful',
-        response: choices?.[0]?.message?.content || content
-      }
-    } else if (response && typeof response === 'object') {
-      // Some local servers might return a different format or empty response while loading
-      // If we got any valid JSON response without an error, consider it a success
-      const errorData = responseData.error as { message?: string }
-      if (errorData) {
-        throw new Error(errorData.message || 'API returned an error')
-      }
-      
-      // LMStudio and similar might return an empty or different format
-      return {
-        success: true,
-        message: 'Connection successful (model may still be loading)',
-        response: 'Server responded successfully. If using a local model, it may need time to load.'
-      }
-    } else {
-      throw new Error('Invalid response format from API')
-    }
-  } catch (error) {
-    // Parse error message
-    let errorMessage = 'Connection test failed'
-    
-    if (error instanceof Error) {
-      if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-        errorMessage = 'Invalid API key'
-      } else if (error.message.includes('404')) {
-        errorMessage = 'Invalid API endpoint or model ID'
-      } else if (error.message.includes('timeout')) {
-        errorMessage = 'Connection timeout - please check the endpoint'
-      } else {
-        errorMessage = error.message
-      }
-    }
-
-    throw createError({
-      statusCode: 400,
-      statusMessage: errorMessage
-    })
+  // Provider failures end up in the report, not as an error response
+  const report = await diagnoseModel(testConfig.connection, testConfig.modelId)
+  
+  if (testConfig.model && report.usage) {
+    await recordUsage({ userId, model: testConfig.model, usage: report.usage })
   }
-})
\ No newline at end of file
+  
+  return successResponse(
+    report,
+    report.ok ? 'Connection successful' : 'Connection test found problems'
+  )
+})
@@ -2,12 +2,17 @@
  * DELETE /api/personas/:id
  * 
  * Delete a persona for the authenticated user
+ * Its assistants go with it, so the delete is refused while a production
+ * would be left with fewer than 2 assistants
  */
 import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
 import { personas } from '../../database/schema/personas'
+import { assistants } from '../../database/schema/assistants'
 import { eq, and } from 'drizzle-orm'
+import { leavesProductionUnderstaffed } from '../../utils/productions'
 import { deleteResponse, handleApiError } from '../../utils/responses'
+import { removeAvatar } from '../../utils/avatars'
 
 export default defineEventHandler(async (event) => {
   // Require authentication
@@ -23,16 +28,37 @@ export default defineEventHandler(async (event) => {
   }
   
   try {
-    // Delete the persona
-    const [deletedPersona] = await db
-      .delete(personas)
-      .where(
-        and(
-          eq(personas.id, personaId),
-          eq(personas.userId, userId)
+    const deletedPersona = await db.transaction(async (tx) => {
+      const personaAssistants = await tx
+        .select({ id: assistants.id })
+        .from(assistants)
+        .where(and(
+          eq(assistants.personaId, personaId),
+          eq(assistants.userId, userId)
+        ))
+      
+      const assistantIds = personaAssistants.map(assistant => assistant.id)
+      if (await leavesProductionUnderstaffed(tx, userId, assistantIds)) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'A production needs an assistant of this persona to keep 2 participants',
+          data: { code: 'PERSONA_IN_USE' }
+        })
+      }
+      
+      // Delete the persona
+      const [deleted] = await tx
+        .delete(personas)
+        .where(
+          and(
+            eq(personas.id, personaId),
+            eq(personas.userId, userId)
+          )
         )
-      )
-      .returning()
+        .returning()
+      
+      return deleted
+    })
     
     if (!deletedPersona) {
       throw createError({
@@ -41,6 +67,13 @@ export default defineEventHandler(async (event) => {
       })
     }
     
+    if (deletedPersona.avatarUrl) {
+      // The persona is gone either way, leftover files are only logged
+      await removeAvatar(personaId).catch((error) => {
+        console.error('Failed to remove avatar:', error)
+      })
+    }
+    
     return deleteResponse('Persona deleted successfully')
   } catch (error) {
     return handleApiError(error, 'Failed to delete persona')
@@ -2,6 +2,7 @@
  * PUT /api/personas/:id
  * 
  * Update an existing persona for the authenticated user
+ * Changes to the name or truths are kept as a new revision
  */
 import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
@@ -9,6 +10,12 @@ import { personas } from '../../database/schema/personas'
 import { eq, and } from 'drizzle-orm'
 import { z } from 'zod'
 import { successResponse, handleApiError } from '../../utils/responses'
+import {
+  getAffiliationIdsByPersona,
+  requireOwnedAffiliations,
+  setPersonaAffiliations,
+} from '../../utils/affiliations'
+import { recordPersonaRevision } from '../../utils/revisions'
 
 // Validation schema for updating a persona
 const updatePersonaSchema = z.object({
@@ -16,6 +23,7 @@ const updatePersonaSchema = z.object({
   universalTruth: z.string().nullable().optional(),
   internalTruth: z.string().nullable().optional(),
   externalTruth: z.string().nullable().optional(),
+  affiliationIds: z.array(z.string().uuid('Invalid affiliation ID')).optional(),
 })
 
 export default defineEventHandler(async (event) => {
@@ -55,29 +63,53 @@ export default defineEventHandler(async (event) => {
   }
   
   try {
-    // Update the persona
-    const result = await db
-      .update(personas)
-      .set({
-        ...validatedData,
-        updatedAt: new Date(),
-      })
-      .where(
-        and(
-          eq(personas.id, personaId),
-          eq(personas.userId, userId)
+    const { affiliationIds, ...personaData } = validatedData
+    
+    // Verify the affiliations belong to the user
+    if (affiliationIds) {
+      await requireOwnedAffiliations(userId, affiliationIds)
+    }
+    
+    // Update the persona and its memberships together
+    const result = await db.transaction(async (tx) => {
+      const [updatedPersona] = await tx
+        .update(personas)
+        .set({
+          ...personaData,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(personas.id, personaId),
+            eq(personas.userId, userId)
+          )
         )
-      )
-      .returning()
+        .returning()
+      
+      if (updatedPersona && affiliationIds) {
+        await setPersonaAffiliations(tx, updatedPersona.id, affiliationIds)
+      }
+      
+      if (updatedPersona) {
+        await recordPersonaRevision(tx, updatedPersona, 'update')
+      }
+      
+      return updatedPersona
+    })
     
-    if (!result[0]) {
+    if (!result) {
       throw createError({
         statusCode: 404,
         statusMessage: 'Persona not found'
       })
     }
     
-    return successResponse(result[0], 'Persona updated successfully')
+    const memberships = await getAffiliationIdsByPersona([result.id])
+    
+    return successResponse(
+      { ...result, affiliationIds: memberships.get(result.id) || [] },
+      'Persona updated successfully'
+    )
   } catch (error) {
     return handleApiError(error, 'Failed to update persona')
   }
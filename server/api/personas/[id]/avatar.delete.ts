@@ -0,0 +1,60 @@
+/**
+ * DELETE /api/personas/:id/avatar
+ * 
+ * Remove a persona's avatar
+ */
+import { db } from '../../../utils/db'
+import { requireAuth } from '../../../utils/auth'
+import { personas } from '../../../database/schema/personas'
+import { eq, and } from 'drizzle-orm'
+import { successResponse, handleApiError } from '../../../utils/responses'
+import { getAffiliationIdsByPersona } from '../../../utils/affiliations'
+import { removeAvatar } from '../../../utils/avatars'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get persona ID from route params
+  const personaId = getRouterParam(event, 'id')
+  if (!personaId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Persona ID is required'
+    })
+  }
+  
+  try {
+    const [updatedPersona] = await db
+      .update(personas)
+      .set({
+        avatarUrl: null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(personas.id, personaId),
+          eq(personas.userId, userId)
+        )
+      )
+      .returning()
+    
+    if (!updatedPersona) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Persona not found'
+      })
+    }
+    
+    await removeAvatar(personaId)
+    
+    const memberships = await getAffiliationIdsByPersona([personaId])
+    
+    return successResponse(
+      { ...updatedPersona, affiliationIds: memberships.get(personaId) || [] },
+      'Avatar removed successfully'
+    )
+  } catch (error) {
+    return handleApiError(error, 'Failed to remove avatar')
+  }
+})
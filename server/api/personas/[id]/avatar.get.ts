@@ -0,0 +1,82 @@
+/**
+ * GET /api/personas/:id/avatar
+ * 
+ * Serve a persona's avatar as WebP
+ * 
+ * Query: size - 64, 128 (default) or 256 pixels
+ */
+import { db } from '../../../utils/db'
+import { requireAuth } from '../../../utils/auth'
+import { personas } from '../../../database/schema/personas'
+import { eq, and } from 'drizzle-orm'
+import { z } from 'zod'
+import { handleApiError } from '../../../utils/responses'
+import { AVATAR_SIZES, readAvatar } from '../../../utils/avatars'
+import type { AvatarSize } from '../../../utils/avatars'
+
+// Validation schema for the query string
+const avatarQuerySchema = z.object({
+  size: z.enum(AVATAR_SIZES.map(String) as [string, ...string[]], {
+    errorMap: () => ({ message: `Size must be one of ${AVATAR_SIZES.join(', ')}` })
+  }).default('128'),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get persona ID from route params
+  const personaId = getRouterParam(event, 'id')
+  if (!personaId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Persona ID is required'
+    })
+  }
+  
+  let validatedQuery: z.infer<typeof avatarQuerySchema>
+  try {
+    validatedQuery = avatarQuerySchema.parse(getQuery(event))
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid query parameters'
+    })
+  }
+  
+  try {
+    const [persona] = await db
+      .select({ avatarUrl: personas.avatarUrl })
+      .from(personas)
+      .where(
+        and(
+          eq(personas.id, personaId),
+          eq(personas.userId, userId)
+        )
+      )
+      .limit(1)
+    
+    const image = persona?.avatarUrl
+      ? await readAvatar(personaId, Number(validatedQuery.size) as AvatarSize)
+      : null
+    
+    if (!image) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Avatar not found'
+      })
+    }
+    
+    // The URL carries a version, a new upload gets a new URL
+    setResponseHeaders(event, {
+      'Content-Type': 'image/webp',
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    })
+    
+    return image
+  } catch (error) {
+    return handleApiError(error, 'Failed to load avatar')
+  }
+})
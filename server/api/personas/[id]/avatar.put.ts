@@ -0,0 +1,92 @@
+/**
+ * PUT /api/personas/:id/avatar
+ * 
+ * Upload a new avatar for a persona as multipart form data (field "file")
+ * The image is cropped to a square and stored in several sizes
+ */
+import { db } from '../../../utils/db'
+import { requireAuth } from '../../../utils/auth'
+import { personas } from '../../../database/schema/personas'
+import { eq, and } from 'drizzle-orm'
+import { successResponse, handleApiError } from '../../../utils/responses'
+import { getAffiliationIdsByPersona } from '../../../utils/affiliations'
+import { avatarUrl, MAX_AVATAR_BYTES, processAvatar, saveAvatar } from '../../../utils/avatars'
+import { assertUploadSize } from '../../../utils/uploads'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get persona ID from route params
+  const personaId = getRouterParam(event, 'id')
+  if (!personaId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Persona ID is required'
+    })
+  }
+  
+  // Refuse oversized uploads before reading them
+  assertUploadSize(event, MAX_AVATAR_BYTES, 'Avatar must be 5 MB or smaller')
+  
+  const form = await readMultipartFormData(event)
+  const file = form?.find(part => part.name === 'file' && part.filename !== undefined)
+  if (!file || file.data.length === 0) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Avatar file is required'
+    })
+  }
+  if (file.data.length > MAX_AVATAR_BYTES) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: 'Avatar must be 5 MB or smaller'
+    })
+  }
+  
+  try {
+    const [existingPersona] = await db
+      .select({ id: personas.id })
+      .from(personas)
+      .where(
+        and(
+          eq(personas.id, personaId),
+          eq(personas.userId, userId)
+        )
+      )
+      .limit(1)
+    
+    if (!existingPersona) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Persona not found'
+      })
+    }
+    
+    const images = await processAvatar(file.data)
+    await saveAvatar(personaId, images)
+    
+    const [updatedPersona] = await db
+      .update(personas)
+      .set({
+        avatarUrl: avatarUrl(personaId),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(personas.id, personaId),
+          eq(personas.userId, userId)
+        )
+      )
+      .returning()
+    
+    const memberships = await getAffiliationIdsByPersona([personaId])
+    
+    return successResponse(
+      { ...updatedPersona!, affiliationIds: memberships.get(personaId) || [] },
+      'Avatar uploaded successfully'
+    )
+  } catch (error) {
+    return handleApiError(error, 'Failed to upload avatar')
+  }
+})
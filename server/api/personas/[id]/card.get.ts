@@ -0,0 +1,93 @@
+/**
+ * GET /api/personas/:id/card
+ * 
+ * Download a persona as a Character Card V2
+ * The PNG card uses the avatar as its portrait, or a blank one without
+ * 
+ * Query: format - json (default) or png
+ */
+import sharp from 'sharp'
+import { db } from '../../../utils/db'
+import { requireAuth } from '../../../utils/auth'
+import { personas } from '../../../database/schema/personas'
+import { eq, and } from 'drizzle-orm'
+import { z } from 'zod'
+import { handleApiError } from '../../../utils/responses'
+import { readAvatar } from '../../../utils/avatars'
+import { buildCharacterCard, embedCharacterCard } from '../../../utils/cards'
+
+// Validation schema for the query string
+const cardQuerySchema = z.object({
+  format: z.enum(['json', 'png'], { errorMap: () => ({ message: 'Format must be json or png' }) }).default('json'),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get persona ID from route params
+  const personaId = getRouterParam(event, 'id')
+  if (!personaId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Persona ID is required'
+    })
+  }
+  
+  let validatedQuery: z.infer<typeof cardQuerySchema>
+  try {
+    validatedQuery = cardQuerySchema.parse(getQuery(event))
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid query parameters'
+    })
+  }
+  
+  try {
+    const [persona] = await db
+      .select()
+      .from(personas)
+      .where(
+        and(
+          eq(personas.id, personaId),
+          eq(personas.userId, userId)
+        )
+      )
+      .limit(1)
+    
+    if (!persona) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Persona not found'
+      })
+    }
+    
+    const card = buildCharacterCard(persona)
+    const { format } = validatedQuery
+    // Keep the file name to safe characters, the persona name is user input
+    const filename = `${persona.name.replace(/[^\w-]+/g, '_').slice(0, 64) || 'persona'}.${format}`
+    
+    setResponseHeaders(event, {
+      'Content-Type': format === 'png' ? 'image/png' : 'application/json',
+      'Content-Disposition': `attachment; filename="${filename}"`
+    })
+    
+    if (format === 'json') {
+      return JSON.stringify(card, null, 2)
+    }
+    
+    const avatar = persona.avatarUrl ? await readAvatar(persona.id, 256) : null
+    const portrait = avatar
+      ? await sharp(avatar).png().toBuffer()
+      : await sharp({
+          create: { width: 256, height: 256, channels: 3, background: '#a8a29e' },
+        }).png().toBuffer()
+    
+    return embedCharacterCard(portrait, card)
+  } catch (error) {
+    return handleApiError(error, 'Failed to export character card')
+  }
+})
@@ -0,0 +1,100 @@
+/**
+ * POST /api/personas/:id/restore
+ * 
+ * Restore the name and truths of an earlier revision
+ * The restored texts are written as a new revision, the history is kept
+ */
+import { db } from '../../../utils/db'
+import { requireAuth } from '../../../utils/auth'
+import { personas } from '../../../database/schema/personas'
+import { eq, and } from 'drizzle-orm'
+import { z } from 'zod'
+import { successResponse, handleApiError } from '../../../utils/responses'
+import { getAffiliationIdsByPersona } from '../../../utils/affiliations'
+import { getPersonaRevision, recordPersonaRevision } from '../../../utils/revisions'
+
+// Validation schema for restoring a revision
+const restoreRevisionSchema = z.object({
+  revision: z.number().int().positive('Revision must be a positive number'),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get persona ID from route params
+  const personaId = getRouterParam(event, 'id')
+  if (!personaId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Persona ID is required'
+    })
+  }
+  
+  // Parse and validate request body
+  const body = await readBody(event)
+  
+  let validatedData
+  try {
+    validatedData = restoreRevisionSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
+  
+  try {
+    const revision = await getPersonaRevision(userId, personaId, validatedData.revision)
+    
+    if (!revision) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Revision not found'
+      })
+    }
+    
+    const result = await db.transaction(async (tx) => {
+      const [updatedPersona] = await tx
+        .update(personas)
+        .set({
+          name: revision.name,
+          universalTruth: revision.universalTruth,
+          internalTruth: revision.internalTruth,
+          externalTruth: revision.externalTruth,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(personas.id, personaId),
+            eq(personas.userId, userId)
+          )
+        )
+        .returning()
+      
+      if (updatedPersona) {
+        await recordPersonaRevision(tx, updatedPersona, 'restore', revision.revision)
+      }
+      
+      return updatedPersona
+    })
+    
+    if (!result) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Persona not found'
+      })
+    }
+    
+    const memberships = await getAffiliationIdsByPersona([result.id])
+    
+    return successResponse(
+      { ...result, affiliationIds: memberships.get(result.id) || [] },
+      `Revision ${revision.revision} restored`
+    )
+  } catch (error) {
+    return handleApiError(error, 'Failed to restore persona revision')
+  }
+})
@@ -0,0 +1,59 @@
+/**
+ * GET /api/personas/:id/revisions
+ * 
+ * List the revision history of a persona, newest first
+ */
+import { db } from '../../../utils/db'
+import { requireAuth } from '../../../utils/auth'
+import { personaRevisions, personas } from '../../../database/schema/personas'
+import { and, desc, eq } from 'drizzle-orm'
+import { listResponse, handleApiError } from '../../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get persona ID from route params
+  const personaId = getRouterParam(event, 'id')
+  if (!personaId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Persona ID is required'
+    })
+  }
+  
+  try {
+    const [persona] = await db
+      .select({ id: personas.id })
+      .from(personas)
+      .where(
+        and(
+          eq(personas.id, personaId),
+          eq(personas.userId, userId)
+        )
+      )
+      .limit(1)
+    
+    if (!persona) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Persona not found'
+      })
+    }
+    
+    const revisions = await db
+      .select()
+      .from(personaRevisions)
+      .where(
+        and(
+          eq(personaRevisions.personaId, personaId),
+          eq(personaRevisions.userId, userId)
+        )
+      )
+      .orderBy(desc(personaRevisions.revision))
+    
+    return listResponse(revisions, 'revisions')
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch persona revisions')
+  }
+})
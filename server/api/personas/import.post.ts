@@ -0,0 +1,45 @@
+/**
+ * POST /api/personas/import
+ * 
+ * Read a Character Card (V1, V2 or V3) as multipart form data (field "file"),
+ * either a JSON file or a PNG with an embedded card
+ * Returns the card fields for review, nothing is saved; the reviewed
+ * persona is created with POST /api/personas
+ */
+import { requireAuth } from '../../utils/auth'
+import { successResponse } from '../../utils/responses'
+import { isPng, readCharacterCard } from '../../utils/cards'
+import { assertUploadSize } from '../../utils/uploads'
+
+// Card portraits are often large PNGs
+const MAX_CARD_BYTES = 10 * 1024 * 1024
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  requireAuth(event)
+  
+  // Refuse oversized uploads before reading them
+  assertUploadSize(event, MAX_CARD_BYTES, 'Card must be 10 MB or smaller')
+  
+  const form = await readMultipartFormData(event)
+  const file = form?.find(part => part.name === 'file' && part.filename !== undefined)
+  if (!file || file.data.length === 0) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Card file is required'
+    })
+  }
+  if (file.data.length > MAX_CARD_BYTES) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: 'Card must be 10 MB or smaller'
+    })
+  }
+  
+  const card = readCharacterCard(file.data)
+  
+  return successResponse(
+    { card, image: isPng(file.data) },
+    'Character card read'
+  )
+})
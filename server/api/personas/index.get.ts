@@ -1,13 +1,14 @@
 /**
  * GET /api/personas
  * 
- * List all personas for the authenticated user
+ * List all personas for the authenticated user, including their affiliation IDs
  */
 import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
 import { personas } from '../../database/schema/personas'
 import { desc, eq } from 'drizzle-orm'
 import { listResponse, handleApiError } from '../../utils/responses'
+import { getAffiliationIdsByPersona } from '../../utils/affiliations'
 
 export default defineEventHandler(async (event) => {
   // Require authentication
@@ -21,7 +22,16 @@ export default defineEventHandler(async (event) => {
       .where(eq(personas.userId, userId))
       .orderBy(desc(personas.createdAt))
     
-    return listResponse(userPersonas, 'personas')
+    // Attach affiliation memberships
+    const memberships = await getAffiliationIdsByPersona(
+      userPersonas.map(persona => persona.id)
+    )
+    const personasWithAffiliations = userPersonas.map(persona => ({
+      ...persona,
+      affiliationIds: memberships.get(persona.id) || [],
+    }))
+    
+    return listResponse(personasWithAffiliations, 'personas')
   } catch (error) {
     return handleApiError(error, 'Failed to fetch personas')
   }
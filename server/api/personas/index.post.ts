@@ -2,12 +2,15 @@
  * POST /api/personas
  * 
  * Create a new persona for the authenticated user
+ * Writes the first revision of its history
  */
 import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
 import { personas } from '../../database/schema/personas'
 import { z } from 'zod'
 import { successResponse, handleApiError } from '../../utils/responses'
+import { requireOwnedAffiliations, setPersonaAffiliations } from '../../utils/affiliations'
+import { recordPersonaRevision } from '../../utils/revisions'
 
 // Validation schema for creating a persona
 const createPersonaSchema = z.object({
@@ -15,6 +18,7 @@ const createPersonaSchema = z.object({
   universalTruth: z.string().nullable().optional(),
   internalTruth: z.string().nullable().optional(),
   externalTruth: z.string().nullable().optional(),
+  affiliationIds: z.array(z.string().uuid('Invalid affiliation ID')).optional(),
 })
 
 export default defineEventHandler(async (event) => {
@@ -37,26 +41,43 @@ export default defineEventHandler(async (event) => {
   }
   
   try {
-    // Create the persona
-    const result = await db
-      .insert(personas)
-      .values({
-        userId,
-        name: validatedData.name,
-        universalTruth: validatedData.universalTruth || null,
-        internalTruth: validatedData.internalTruth || null,
-        externalTruth: validatedData.externalTruth || null,
-      })
-      .returning()
+    const affiliationIds = validatedData.affiliationIds || []
+    
+    // Verify the affiliations belong to the user
+    await requireOwnedAffiliations(userId, affiliationIds)
+    
+    // Create the persona and its memberships together
+    const result = await db.transaction(async (tx) => {
+      const [newPersona] = await tx
+        .insert(personas)
+        .values({
+          userId,
+          name: validatedData.name,
+          universalTruth: validatedData.universalTruth || null,
+          internalTruth: validatedData.internalTruth || null,
+          externalTruth: validatedData.externalTruth || null,
+        })
+        .returning()
+      
+      if (newPersona) {
+        await setPersonaAffiliations(tx, newPersona.id, affiliationIds)
+        await recordPersonaRevision(tx, newPersona, 'create')
+      }
+      
+      return newPersona
+    })
     
-    if (!result[0]) {
+    if (!result) {
       throw createError({
         statusCode: 500,
         statusMessage: 'Failed to create persona'
       })
     }
     
-    return successResponse(result[0], 'Persona created successfully')
+    return successResponse(
+      { ...result, affiliationIds: [...new Set(affiliationIds)] },
+      'Persona created successfully'
+    )
   } catch (error) {
     return handleApiError(error, 'Failed to create persona')
   }
@@ -0,0 +1,48 @@
+/**
+ * DELETE /api/productions/:id
+ * 
+ * Delete a production for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { productions } from '../../database/schema/productions'
+import { eq, and } from 'drizzle-orm'
+import { deleteResponse, handleApiError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get production ID from route params
+  const productionId = getRouterParam(event, 'id')
+  if (!productionId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Production ID is required'
+    })
+  }
+  
+  try {
+    // Delete the production
+    const [deletedProduction] = await db
+      .delete(productions)
+      .where(
+        and(
+          eq(productions.id, productionId),
+          eq(productions.userId, userId)
+        )
+      )
+      .returning()
+    
+    if (!deletedProduction) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Production not found'
+      })
+    }
+    
+    return deleteResponse('Production deleted successfully')
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete production')
+  }
+})
\ No newline at end of file
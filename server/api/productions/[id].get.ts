@@ -0,0 +1,102 @@
+/**
+ * GET /api/productions/:id
+ * 
+ * Get a production with its world, scenario, assistants and turns
+ * With showDirective set, the system prompt of every assistant is included
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { productions, productionAssistants } from '../../database/schema/productions'
+import { assistants } from '../../database/schema/assistants'
+import { personas } from '../../database/schema/personas'
+import { models } from '../../database/schema/models'
+import { scenarios } from '../../database/schema/scenarios'
+import { worlds } from '../../database/schema/worlds'
+import { turns } from '../../database/schema/turns'
+import { eq, and, asc } from 'drizzle-orm'
+import { buildSystemPrompts } from '../../utils/context'
+import { loadProductionCast } from '../../utils/productions'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get production ID from route params
+  const productionId = getRouterParam(event, 'id')
+  if (!productionId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Production ID is required'
+    })
+  }
+  
+  try {
+    // Get the production with its world and scenario
+    const [productionWithRelations] = await db
+      .select({
+        production: productions,
+        world: worlds,
+        scenario: scenarios,
+      })
+      .from(productions)
+      .leftJoin(worlds, eq(productions.worldId, worlds.id))
+      .leftJoin(scenarios, eq(productions.scenarioId, scenarios.id))
+      .where(and(
+        eq(productions.id, productionId),
+        eq(productions.userId, userId)
+      ))
+      .limit(1)
+    
+    if (!productionWithRelations) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Production not found'
+      })
+    }
+    
+    // Get the participating assistants with their persona and model
+    const participants = await db
+      .select({
+        assistant: assistants,
+        persona: personas,
+        model: models,
+      })
+      .from(productionAssistants)
+      .innerJoin(assistants, eq(productionAssistants.assistantId, assistants.id))
+      .leftJoin(personas, eq(assistants.personaId, personas.id))
+      .leftJoin(models, eq(assistants.modelId, models.id))
+      .where(eq(productionAssistants.productionId, productionId))
+    
+    // Get the conversation so far
+    const productionTurns = await db
+      .select()
+      .from(turns)
+      .where(eq(turns.productionId, productionId))
+      .orderBy(asc(turns.turnNumber))
+    
+    // The system prompts as the next turn would build them
+    const cast = productionWithRelations.production.showDirective
+      ? await loadProductionCast(productionId, userId)
+      : null
+    
+    // Transform and return
+    const transformedProduction = {
+      ...productionWithRelations.production,
+      assistantIds: participants.map(({ assistant }) => assistant.id),
+      world: productionWithRelations.world || undefined,
+      scenario: productionWithRelations.scenario || undefined,
+      assistants: participants.map(({ assistant, persona, model }) => ({
+        ...assistant,
+        persona: persona || undefined,
+        model: model || undefined,
+      })),
+      turns: productionTurns,
+      directives: cast ? Object.fromEntries(buildSystemPrompts(cast.context)) : undefined,
+    }
+    
+    return successResponse(transformedProduction, 'Production fetched successfully')
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch production')
+  }
+})
@@ -0,0 +1,101 @@
+/**
+ * GET /api/productions/:id/budget
+ * 
+ * Token budget of the prompt an assistant would receive for its next
+ * turn, broken down by system prompt section and conversation history
+ * 
+ * Query: assistantId - the participant whose prompt is measured
+ */
+import { requireAuth } from '../../../utils/auth'
+import { z } from 'zod'
+import { buildSystemPromptSections, buildSystemPrompt, buildTurnMessages } from '../../../utils/context'
+import { loadProductionCast } from '../../../utils/productions'
+import { mergeModelSettings } from '../../../utils/settings'
+import { getTokenCounter, measurePrompt, tokenizerFor } from '../../../utils/tokens'
+import { successResponse, handleApiError } from '../../../utils/responses'
+
+// Validation schema for the query string
+const budgetQuerySchema = z.object({
+  assistantId: z.string().uuid('Invalid assistant ID'),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get production ID from route params
+  const productionId = getRouterParam(event, 'id')
+  if (!productionId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Production ID is required'
+    })
+  }
+  
+  let validatedQuery: z.infer<typeof budgetQuerySchema>
+  try {
+    validatedQuery = budgetQuerySchema.parse(getQuery(event))
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid query parameters'
+    })
+  }
+  
+  try {
+    const cast = await loadProductionCast(productionId, userId)
+    if (!cast) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Production not found'
+      })
+    }
+    
+    const speaker = cast.participants.find(p => p.assistantId === validatedQuery.assistantId)
+    if (!speaker) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Assistant is not part of this production'
+      })
+    }
+    
+    // Assemble the prompt the same way a turn does
+    const names = new Map(cast.participants.map(p => [p.assistantId, p.persona.name]))
+    const sections = buildSystemPromptSections(cast.context, speaker)
+    const messages = buildTurnMessages(
+      buildSystemPrompt(cast.context, speaker),
+      speaker,
+      cast.turns.map(turn => ({
+        assistantId: turn.assistantId,
+        speaker: (turn.assistantId && names.get(turn.assistantId)) || 'Unknown',
+        content: turn.content,
+      }))
+    )
+    
+    const { model, provider } = speaker
+    const counter = await getTokenCounter(tokenizerFor(provider.kind, model.modelId))
+    const budget = measurePrompt(counter, sections, messages)
+    
+    // Room the reply is allowed to take
+    const settings = mergeModelSettings(model.defaultSettings, speaker.assistant.configOverride)
+    const reservedOutput = settings.maxTokens ?? model.maxOutputTokens ?? null
+    
+    return successResponse(
+      {
+        ...budget,
+        assistantId: speaker.assistantId,
+        modelId: model.id,
+        contextLength: model.contextLength,
+        reservedOutput,
+        remaining: model.contextLength === null
+          ? null
+          : model.contextLength - budget.total - (reservedOutput ?? 0),
+      },
+      'Prompt budget estimated'
+    )
+  } catch (error) {
+    return handleApiError(error, 'Failed to estimate the prompt budget')
+  }
+})
@@ -0,0 +1,260 @@
+/**
+ * POST /api/productions/:id/turns
+ * 
+ * Generate the next turn for an assistant, streamed as Server-Sent Events
+ * 
+ * Events:
+ * - token: { content } for each piece of generated text
+ * - fallback: { code, modelId, name } when the next model of the chain takes over
+ * - turn: the saved turn once generation completes
+ * - error: { code, message } if generation fails
+ * 
+ * Generation is cancelled when the client disconnects and no turn is saved,
+ * the text generated so far still counts towards usage.
+ * If a model fails before sending any text with a timeout, server error,
+ * rate limit or network error, the assistant's next fallback model is tried.
+ */
+import { db } from '../../../utils/db'
+import { requireAuth } from '../../../utils/auth'
+import { turns } from '../../../database/schema/turns'
+import { z } from 'zod'
+import { getModelConnection } from '../../../utils/providers'
+import { buildSystemPrompt, buildTurnMessages, foldSystemPrompt } from '../../../utils/context'
+import { createLLMClient, isFallbackError, normalizeError } from '../../../utils/llm'
+import type { ChatMessage, ChatUsage, LLMClient } from '../../../utils/llm'
+import { loadProductionCast } from '../../../utils/productions'
+import { mergeModelSettings } from '../../../utils/settings'
+import { countMessageTokens, getTokenCounter, tokenizerFor, truncateToTokens } from '../../../utils/tokens'
+import type { TokenCounter } from '../../../utils/tokens'
+import { recordUsage } from '../../../utils/usage'
+import { handleApiError, isDatabaseConstraintError } from '../../../utils/responses'
+
+// Validation schema for generating a turn
+const generateTurnSchema = z.object({
+  assistantId: z.string().uuid('Invalid assistant ID'),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get production ID from route params
+  const productionId = getRouterParam(event, 'id')
+  if (!productionId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Production ID is required'
+    })
+  }
+  
+  // Parse and validate request body
+  const body = await readBody(event)
+  
+  let validatedData
+  try {
+    validatedData = generateTurnSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
+  
+  let cast
+  try {
+    cast = await loadProductionCast(productionId, userId)
+  } catch (error) {
+    return handleApiError(error, 'Failed to load production')
+  }
+  
+  if (!cast) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Production not found'
+    })
+  }
+  
+  const speaker = cast.participants.find(p => p.assistantId === validatedData.assistantId)
+  if (!speaker) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Assistant is not part of this production'
+    })
+  }
+  
+  // Build the speaker's view of the conversation
+  const names = new Map(cast.participants.map(p => [p.assistantId, p.persona.name]))
+  const turnMessages = buildTurnMessages(
+    buildSystemPrompt(cast.context, speaker),
+    speaker,
+    cast.turns.map(turn => ({
+      assistantId: turn.assistantId,
+      speaker: (turn.assistantId && names.get(turn.assistantId)) || 'Unknown',
+      content: turn.content,
+    }))
+  )
+  const turnNumber = (cast.turns[cast.turns.length - 1]?.turnNumber ?? 0) + 1
+  
+  // The assistant's own model first, then its fallbacks in order
+  const candidates = [
+    { model: speaker.model, provider: speaker.provider },
+    ...speaker.fallbacks,
+  ]
+  
+  // Abort the upstream request when the client goes away
+  const controller = new AbortController()
+  const eventStream = createEventStream(event, { autoclose: false })
+  event.node.res.on('close', () => {
+    controller.abort()
+    eventStream.close()
+  })
+  
+  // Stream one candidate's reply to the client, returning the reported usage
+  const streamReply = async (
+    client: LLMClient,
+    { model }: typeof candidates[number],
+    messages: ChatMessage[],
+    counter: TokenCounter,
+    onContent: (content: string) => Promise<void>
+  ) => {
+    // Each attempt can be cancelled on its own, the client going away cancels all
+    const attempt = new AbortController()
+    
+    // Assistant overrides win over the model's defaults
+    const options = {
+      ...mergeModelSettings(model.defaultSettings, speaker.assistant.configOverride),
+      model: model.modelId,
+      signal: AbortSignal.any([controller.signal, attempt.signal]),
+    }
+    
+    // Models without streaming support reply in a single token event
+    const chunks = model.capabilities?.streaming === false
+      ? [await client.chat(messages, options)]
+      : client.stream(messages, options)
+    
+    // Models that ignore max_tokens are cut off here instead
+    const limit = model.capabilities?.maxTokens === false ? options.maxTokens : undefined
+    let outputTokens = 0
+    
+    let usage: ChatUsage | undefined
+    for await (const chunk of chunks) {
+      // Usage arrives with the final chunk, which may carry no content
+      if (chunk.usage) usage = chunk.usage
+      
+      let piece = chunk.content
+      if (limit && piece) {
+        piece = truncateToTokens(counter, piece, limit - outputTokens)
+        outputTokens += counter.count(piece)
+      }
+      if (piece) await onContent(piece)
+      
+      // Stop the provider from generating, and billing, past the limit
+      if (limit && outputTokens >= limit) {
+        attempt.abort()
+        break
+      }
+    }
+    return usage
+  }
+  
+  const generate = async () => {
+    let content = ''
+    let provider = speaker.provider.kind
+    
+    try {
+      for (const [index, candidate] of candidates.entries()) {
+        const client = createLLMClient(getModelConnection(candidate.provider, candidate.model))
+        provider = client.provider
+        
+        const messages = candidate.model.capabilities?.systemPrompt === false
+          ? foldSystemPrompt(turnMessages)
+          : turnMessages
+        const counter = await getTokenCounter(tokenizerFor(candidate.provider.kind, candidate.model.modelId))
+        
+        // The prompt and reply counted here, for when the provider reports no usage
+        const countUsage = (): ChatUsage => ({
+          inputTokens: countMessageTokens(counter, messages),
+          outputTokens: counter.count(content),
+        })
+        const recordTurnUsage = (usage: ChatUsage) => recordUsage({
+          userId,
+          model: candidate.model,
+          usage,
+          assistantId: speaker.assistantId,
+          productionId,
+        })
+        
+        let usage: ChatUsage | undefined
+        try {
+          usage = await streamReply(client, candidate, messages, counter, async (piece) => {
+            content += piece
+            await eventStream.push({
+              event: 'token',
+              data: JSON.stringify({ content: piece }),
+            })
+          })
+        } catch (error) {
+          // The provider charged for what it streamed before the client went away
+          if (controller.signal.aborted && content) {
+            await recordTurnUsage(countUsage())
+          }
+          
+          const llmError = normalizeError(error, client.provider)
+          const next = candidates[index + 1]
+          
+          // Once tokens reached the client, another model cannot take over
+          if (!next || content || controller.signal.aborted || !isFallbackError(llmError)) {
+            throw error
+          }
+          
+          console.warn(`Model ${candidate.model.name} failed (${llmError.code}), falling back to ${next.model.name}`)
+          await eventStream.push({
+            event: 'fallback',
+            data: JSON.stringify({ code: llmError.code, modelId: next.model.id, name: next.model.name }),
+          })
+          continue
+        }
+        
+        // Replies cut off at the limit never receive the provider's usage
+        await recordTurnUsage(usage ?? countUsage())
+        
+        const [turn] = await db
+          .insert(turns)
+          .values({
+            productionId,
+            assistantId: speaker.assistantId,
+            modelId: candidate.model.id,
+            content: content.trim(),
+            turnNumber,
+          })
+          .returning()
+        
+        await eventStream.push({ event: 'turn', data: JSON.stringify(turn) })
+        return
+      }
+    } catch (error) {
+      // Nobody is listening after a disconnect
+      if (controller.signal.aborted) return
+      
+      console.error('Turn generation failed:', error)
+      
+      // Another turn took this position while we were generating
+      const isConflict = isDatabaseConstraintError(error) && error.code === '23505'
+      const llmError = isConflict ? null : normalizeError(error, provider)
+      
+      await eventStream.push({
+        event: 'error',
+        data: JSON.stringify(llmError
+          ? { code: llmError.code, message: llmError.message }
+          : { code: 'TURN_CONFLICT', message: 'Another turn was added while generating' }),
+      })
+    } finally {
+      await eventStream.close()
+    }
+  }
+  
+  generate()
+  return eventStream.send()
+})
@@ -0,0 +1,38 @@
+/**
+ * GET /api/productions
+ * 
+ * List all productions for the authenticated user, including their assistant IDs
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { productions } from '../../database/schema/productions'
+import { desc, eq } from 'drizzle-orm'
+import { listResponse, handleApiError } from '../../utils/responses'
+import { getAssistantIdsByProduction } from '../../utils/productions'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  try {
+    // Get all productions for the user
+    const userProductions = await db
+      .select()
+      .from(productions)
+      .where(eq(productions.userId, userId))
+      .orderBy(desc(productions.createdAt))
+    
+    // Attach participating assistants
+    const participants = await getAssistantIdsByProduction(
+      userProductions.map(production => production.id)
+    )
+    const productionsWithAssistants = userProductions.map(production => ({
+      ...production,
+      assistantIds: participants.get(production.id) || [],
+    }))
+    
+    return listResponse(productionsWithAssistants, 'productions')
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch productions')
+  }
+})
@@ -0,0 +1,138 @@
+/**
+ * POST /api/productions
+ * 
+ * Create a new production for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { productions, productionAssistants } from '../../database/schema/productions'
+import { assistants } from '../../database/schema/assistants'
+import { scenarios } from '../../database/schema/scenarios'
+import { worlds } from '../../database/schema/worlds'
+import { eq, and, inArray } from 'drizzle-orm'
+import { z } from 'zod'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+// Validation schema for creating a production
+const createProductionSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  worldId: z.string().uuid('Invalid world ID'),
+  scenarioId: z.string().uuid('Invalid scenario ID'),
+  assistantIds: z
+    .array(z.string().uuid('Invalid assistant ID'))
+    .refine(ids => new Set(ids).size >= 2, 'At least two assistants are required'),
+  showDirective: z.boolean().optional(),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Parse and validate request body
+  const body = await readBody(event)
+  
+  let validatedData
+  try {
+    validatedData = createProductionSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
+  
+  const assistantIds = [...new Set(validatedData.assistantIds)]
+  
+  try {
+    // Verify the world belongs to the user
+    const [world] = await db
+      .select({ id: worlds.id })
+      .from(worlds)
+      .where(and(
+        eq(worlds.id, validatedData.worldId),
+        eq(worlds.userId, userId)
+      ))
+      .limit(1)
+    
+    if (!world) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'World not found'
+      })
+    }
+    
+    // Verify the scenario belongs to the user
+    const [scenario] = await db
+      .select({ id: scenarios.id })
+      .from(scenarios)
+      .where(and(
+        eq(scenarios.id, validatedData.scenarioId),
+        eq(scenarios.userId, userId)
+      ))
+      .limit(1)
+    
+    if (!scenario) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Scenario not found'
+      })
+    }
+    
+    // Verify all assistants belong to the user
+    const ownedAssistants = await db
+      .select({ id: assistants.id })
+      .from(assistants)
+      .where(and(
+        inArray(assistants.id, assistantIds),
+        eq(assistants.userId, userId)
+      ))
+    
+    if (ownedAssistants.length !== assistantIds.length) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Assistant not found'
+      })
+    }
+    
+    // Create the production and its participants together
+    const result = await db.transaction(async (tx) => {
+      const [newProduction] = await tx
+        .insert(productions)
+        .values({
+          userId,
+          name: validatedData.name,
+          worldId: validatedData.worldId,
+          scenarioId: validatedData.scenarioId,
+          showDirective: validatedData.showDirective || false,
+        })
+        .returning()
+      
+      if (newProduction) {
+        await tx
+          .insert(productionAssistants)
+          .values(assistantIds.map(assistantId => ({
+            productionId: newProduction.id,
+            assistantId,
+          })))
+      }
+      
+      return newProduction
+    })
+    
+    if (!result) {
+      throw createError({
+        statusCode: 500,
+        statusMessage: 'Failed to create production'
+      })
+    }
+    
+    return successResponse(
+      { ...result, assistantIds },
+      'Production created successfully'
+    )
+  } catch (error) {
+    return handleApiError(error, 'Failed to create production')
+  }
+})
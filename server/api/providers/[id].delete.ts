@@ -0,0 +1,55 @@
+/**
+ * DELETE /api/providers/:id
+ * 
+ * Delete a provider connection that no model uses anymore
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { providers } from '../../database/schema/providers'
+import { eq, and } from 'drizzle-orm'
+import { deleteResponse, handleApiError, isDatabaseConstraintError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get provider ID from route params
+  const providerId = getRouterParam(event, 'id')
+  if (!providerId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Provider ID is required'
+    })
+  }
+
+  try {
+    // Delete the provider
+    const result = await db
+      .delete(providers)
+      .where(and(
+        eq(providers.id, providerId),
+        eq(providers.userId, userId)
+      ))
+      .returning()
+    
+    if (!result[0]) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Provider not found'
+      })
+    }
+    
+    return deleteResponse('Provider deleted successfully')
+  } catch (error) {
+    // Check for models still referencing this provider
+    if (isDatabaseConstraintError(error) && error.code === '23503') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'Provider is used by a model',
+        data: { code: 'PROVIDER_IN_USE' }
+      })
+    }
+    
+    return handleApiError(error, 'Failed to delete provider')
+  }
+})
@@ -0,0 +1,85 @@
+/**
+ * PUT /api/providers/:id
+ * 
+ * Update a provider connection
+ * Every model using the provider picks up the change
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { providers } from '../../database/schema/providers'
+import { eq, and } from 'drizzle-orm'
+import { z } from 'zod'
+import { encrypt, isMaskedKey } from '../../utils/crypto'
+import { maskProvider } from '../../utils/providers'
+import { assertOutboundUrl } from '../../utils/outbound'
+import { updateProviderSchema } from '../../../shared/validation'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get provider ID from route params
+  const providerId = getRouterParam(event, 'id')
+  if (!providerId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Provider ID is required'
+    })
+  }
+
+  // Validate request body
+  const body = await readBody(event)
+  
+  let validatedData: z.infer<typeof updateProviderSchema>
+  try {
+    validatedData = updateProviderSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid request data'
+    })
+  }
+
+  // The server will fetch this URL, internal addresses are refused
+  if (validatedData.apiEndpoint) {
+    await assertOutboundUrl(validatedData.apiEndpoint)
+  }
+
+  try {
+    const { apiKey, ...fields } = validatedData
+    const updateData: Partial<typeof providers.$inferInsert> = { ...fields, updatedAt: new Date() }
+    
+    if (fields.apiEndpoint) {
+      updateData.apiEndpoint = fields.apiEndpoint.replace(/\/+$/, '')
+    }
+    
+    // Handle API key: if it's masked, don't update it; if it's new, encrypt it
+    if ('apiKey' in validatedData && !isMaskedKey(apiKey)) {
+      updateData.apiKey = encrypt(apiKey)
+    }
+    
+    // Update the provider
+    const [updatedProvider] = await db
+      .update(providers)
+      .set(updateData)
+      .where(and(
+        eq(providers.id, providerId),
+        eq(providers.userId, userId)
+      ))
+      .returning()
+    
+    if (!updatedProvider) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Provider not found'
+      })
+    }
+    
+    return successResponse(maskProvider(updatedProvider), 'Provider updated successfully')
+  } catch (error) {
+    return handleApiError(error, 'Failed to update provider')
+  }
+})
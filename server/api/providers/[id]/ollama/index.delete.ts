@@ -0,0 +1,106 @@
+/**
+ * DELETE /api/providers/:id/ollama
+ * 
+ * Delete a model from an Ollama provider, together with the configured
+ * models pointing at it. Refused while an assistant uses the model, and
+ * when another provider reaches the same server, since its users may
+ * rely on the model without this check seeing it.
+ * 
+ * Query: name - the Ollama model name
+ */
+import { requireAuth } from '../../../../utils/auth'
+import { z } from 'zod'
+import { createOllamaManager, describeLLMError, LLMError } from '../../../../utils/llm'
+import { getProviderConnection } from '../../../../utils/providers'
+import {
+  deleteConfiguredModels,
+  getOllamaModelUsage,
+  getProvidersOnHost,
+  ollamaModelKey,
+  requireOllamaProvider,
+} from '../../../../utils/ollama'
+import { successResponse, handleApiError } from '../../../../utils/responses'
+import { ollamaModelNameSchema } from '../../../../../shared/validation'
+
+// Validation schema for the query string
+const deleteQuerySchema = z.object({
+  name: ollamaModelNameSchema,
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get provider ID from route params
+  const providerId = getRouterParam(event, 'id')
+  if (!providerId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Provider ID is required'
+    })
+  }
+  
+  let validatedQuery: z.infer<typeof deleteQuerySchema>
+  try {
+    validatedQuery = deleteQuerySchema.parse(getQuery(event))
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid query parameters'
+    })
+  }
+  
+  const provider = await requireOllamaProvider(userId, providerId)
+  
+  let modelIds: string[]
+  try {
+    const hostProviderIds = await getProvidersOnHost(provider)
+    if (hostProviderIds.length > 1) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'Ollama server is shared with another provider',
+        data: { code: 'PROVIDER_SHARED' }
+      })
+    }
+    
+    const usage = (await getOllamaModelUsage(provider.id, hostProviderIds)).get(ollamaModelKey(validatedQuery.name))
+    
+    // Deleting would leave the assistant without a working model
+    if (usage && usage.assistants > 0) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'Model is used by an assistant',
+        data: { code: 'MODEL_IN_USE' }
+      })
+    }
+    modelIds = usage?.modelIds ?? []
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete Ollama model')
+  }
+  
+  try {
+    const manager = createOllamaManager(getProviderConnection(provider))
+    await manager.deleteModel(validatedQuery.name)
+  } catch (error) {
+    throw createError({
+      statusCode: error instanceof LLMError && error.code === 'not_found' ? 404 : 400,
+      statusMessage: error instanceof LLMError
+        ? describeLLMError(error)
+        : 'Failed to delete Ollama model'
+    })
+  }
+  
+  try {
+    const deleted = await deleteConfiguredModels(userId, modelIds)
+    
+    // Configured models removed along with it
+    return successResponse(
+      { modelIds: deleted.map(model => model.id) },
+      'Ollama model deleted successfully'
+    )
+  } catch (error) {
+    return handleApiError(error, 'Failed to delete Ollama model')
+  }
+})
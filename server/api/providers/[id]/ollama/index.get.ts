@@ -0,0 +1,70 @@
+/**
+ * GET /api/providers/:id/ollama
+ * 
+ * List the models stored on an Ollama provider with their size and
+ * quantization, and the configured models and assistants using them.
+ * Models of a server other providers also reach are marked shared and
+ * cannot be deleted here.
+ */
+import { requireAuth } from '../../../../utils/auth'
+import { createOllamaManager, describeLLMError, LLMError } from '../../../../utils/llm'
+import type { OllamaLocalModel } from '../../../../utils/llm'
+import { getProviderConnection } from '../../../../utils/providers'
+import {
+  getOllamaModelUsage,
+  getProvidersOnHost,
+  ollamaModelKey,
+  requireOllamaProvider,
+} from '../../../../utils/ollama'
+import { listResponse, handleApiError } from '../../../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get provider ID from route params
+  const providerId = getRouterParam(event, 'id')
+  if (!providerId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Provider ID is required'
+    })
+  }
+  
+  const provider = await requireOllamaProvider(userId, providerId)
+  
+  let localModels: OllamaLocalModel[]
+  try {
+    const manager = createOllamaManager(getProviderConnection(provider))
+    localModels = await manager.listLocalModels()
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof LLMError
+        ? describeLLMError(error)
+        : 'Failed to list Ollama models'
+    })
+  }
+  
+  try {
+    const hostProviderIds = await getProvidersOnHost(provider)
+    const usage = await getOllamaModelUsage(provider.id, hostProviderIds)
+    const shared = hostProviderIds.length > 1
+    
+    const items = localModels
+      .map(model => {
+        const used = usage.get(ollamaModelKey(model.name))
+        return {
+          ...model,
+          modelIds: used?.modelIds ?? [],
+          assistants: used?.assistants ?? 0,
+          shared,
+        }
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+    
+    return listResponse(items, 'Ollama models')
+  } catch (error) {
+    return handleApiError(error, 'Failed to list Ollama models')
+  }
+})
@@ -0,0 +1,99 @@
+/**
+ * POST /api/providers/:id/ollama/pull
+ * 
+ * Pull a model onto an Ollama provider
+ * Progress is streamed as Server-Sent Events:
+ * - progress: { status, digest, total, completed }
+ * - done: { name }
+ * - error: { code, message }
+ * Disconnecting cancels the download
+ */
+import { requireAuth } from '../../../../utils/auth'
+import { z } from 'zod'
+import { createOllamaManager, normalizeError } from '../../../../utils/llm'
+import { getProviderConnection } from '../../../../utils/providers'
+import { requireOllamaProvider } from '../../../../utils/ollama'
+import { ollamaModelNameSchema } from '../../../../../shared/validation'
+
+// Validation schema for the model to pull
+const pullModelSchema = z.object({
+  name: ollamaModelNameSchema,
+})
+
+// Ollama reports progress many times a second
+const PROGRESS_INTERVAL = 250
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get provider ID from route params
+  const providerId = getRouterParam(event, 'id')
+  if (!providerId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Provider ID is required'
+    })
+  }
+  
+  // Parse and validate request body
+  const body = await readBody(event)
+  
+  let validatedData: z.infer<typeof pullModelSchema>
+  try {
+    validatedData = pullModelSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
+  
+  const provider = await requireOllamaProvider(userId, providerId)
+  const manager = createOllamaManager(getProviderConnection(provider))
+  
+  // Abort the download when the client goes away
+  const controller = new AbortController()
+  const eventStream = createEventStream(event, { autoclose: false })
+  event.node.res.on('close', () => {
+    controller.abort()
+    eventStream.close()
+  })
+  
+  const pull = async () => {
+    let lastSent = 0
+    let lastStatus = ''
+    
+    try {
+      for await (const progress of manager.pullModel(validatedData.name, { signal: controller.signal })) {
+        // Status changes always go out, byte counts are throttled
+        const now = Date.now()
+        if (progress.status === lastStatus && now - lastSent < PROGRESS_INTERVAL) continue
+        lastSent = now
+        lastStatus = progress.status
+        
+        await eventStream.push({ event: 'progress', data: JSON.stringify(progress) })
+      }
+      
+      await eventStream.push({ event: 'done', data: JSON.stringify({ name: validatedData.name }) })
+    } catch (error) {
+      // Nobody is listening after a disconnect
+      if (controller.signal.aborted) return
+      
+      console.error('Ollama pull failed:', error)
+      
+      const llmError = normalizeError(error, 'ollama')
+      await eventStream.push({
+        event: 'error',
+        data: JSON.stringify({ code: llmError.code, message: llmError.message }),
+      })
+    } finally {
+      await eventStream.close()
+    }
+  }
+  
+  pull()
+  return eventStream.send()
+})
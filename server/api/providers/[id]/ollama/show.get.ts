@@ -0,0 +1,62 @@
+/**
+ * GET /api/providers/:id/ollama/show
+ * 
+ * Details of a model stored on an Ollama provider: context length,
+ * quantization, capabilities and Modelfile parameters
+ * 
+ * Query: name - the Ollama model name
+ */
+import { requireAuth } from '../../../../utils/auth'
+import { z } from 'zod'
+import { createOllamaManager, describeLLMError, LLMError } from '../../../../utils/llm'
+import { getProviderConnection } from '../../../../utils/providers'
+import { requireOllamaProvider } from '../../../../utils/ollama'
+import { successResponse } from '../../../../utils/responses'
+import { ollamaModelNameSchema } from '../../../../../shared/validation'
+
+// Validation schema for the query string
+const showQuerySchema = z.object({
+  name: ollamaModelNameSchema,
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get provider ID from route params
+  const providerId = getRouterParam(event, 'id')
+  if (!providerId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Provider ID is required'
+    })
+  }
+  
+  let validatedQuery: z.infer<typeof showQuerySchema>
+  try {
+    validatedQuery = showQuerySchema.parse(getQuery(event))
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid query parameters'
+    })
+  }
+  
+  const provider = await requireOllamaProvider(userId, providerId)
+  
+  try {
+    const manager = createOllamaManager(getProviderConnection(provider))
+    const info = await manager.showModel(validatedQuery.name)
+    
+    return successResponse(info, 'Model details loaded')
+  } catch (error) {
+    throw createError({
+      statusCode: error instanceof LLMError && error.code === 'not_found' ? 404 : 400,
+      statusMessage: error instanceof LLMError
+        ? describeLLMError(error)
+        : 'Failed to load model details'
+    })
+  }
+})
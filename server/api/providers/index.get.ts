@@ -0,0 +1,30 @@
+/**
+ * GET /api/providers
+ * 
+ * List all providers for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { providers } from '../../database/schema/providers'
+import { asc, eq } from 'drizzle-orm'
+import { maskProvider } from '../../utils/providers'
+import { listResponse, handleApiError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  try {
+    // Get all providers for the user
+    const userProviders = await db
+      .select()
+      .from(providers)
+      .where(eq(providers.userId, userId))
+      .orderBy(asc(providers.name))
+    
+    // Mask API keys before sending to client
+    return listResponse(userProviders.map(maskProvider), 'providers')
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch providers')
+  }
+})
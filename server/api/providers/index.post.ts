@@ -0,0 +1,65 @@
+/**
+ * POST /api/providers
+ * 
+ * Create a provider connection for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { providers } from '../../database/schema/providers'
+import { z } from 'zod'
+import { encrypt } from '../../utils/crypto'
+import { maskProvider } from '../../utils/providers'
+import { assertOutboundUrl } from '../../utils/outbound'
+import { createProviderSchema } from '../../../shared/validation'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  // Validate request body
+  const body = await readBody(event)
+  
+  let validatedData: z.infer<typeof createProviderSchema>
+  try {
+    validatedData = createProviderSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid request data'
+    })
+  }
+
+  // The server will fetch this URL, internal addresses are refused
+  await assertOutboundUrl(validatedData.apiEndpoint)
+
+  try {
+    // Create the provider with an encrypted key
+    const [createdProvider] = await db
+      .insert(providers)
+      .values({
+        userId,
+        name: validatedData.name,
+        kind: validatedData.kind,
+        apiEndpoint: validatedData.apiEndpoint.replace(/\/+$/, ''),
+        apiKey: encrypt(validatedData.apiKey),
+        headers: validatedData.headers ?? null,
+        maxConcurrency: validatedData.maxConcurrency ?? null,
+        requestsPerMinute: validatedData.requestsPerMinute ?? null
+      })
+      .returning()
+    
+    if (!createdProvider) {
+      throw createError({
+        statusCode: 500,
+        statusMessage: 'Failed to create provider'
+      })
+    }
+    
+    return successResponse(maskProvider(createdProvider), 'Provider created successfully')
+  } catch (error) {
+    return handleApiError(error, 'Failed to create provider')
+  }
+})
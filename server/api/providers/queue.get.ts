@@ -0,0 +1,32 @@
+/**
+ * GET /api/providers/queue
+ * 
+ * Outbound queue load of every provider of the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { providers } from '../../database/schema/providers'
+import { eq } from 'drizzle-orm'
+import { getQueueStats } from '../../utils/llm'
+import { listResponse, handleApiError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  try {
+    const userProviders = await db
+      .select({ id: providers.id })
+      .from(providers)
+      .where(eq(providers.userId, userId))
+    
+    const queues = userProviders.map(provider => ({
+      providerId: provider.id,
+      ...getQueueStats(provider.id),
+    }))
+    
+    return listResponse(queues, 'provider queues')
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch provider queues')
+  }
+})
@@ -0,0 +1,57 @@
+/**
+ * DELETE /api/scenarios/:id
+ * 
+ * Delete an existing scenario for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { scenarios } from '../../database/schema/scenarios'
+import { eq, and } from 'drizzle-orm'
+import { successResponse, handleApiError, isDatabaseConstraintError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get scenario ID from route params
+  const scenarioId = getRouterParam(event, 'id')
+  if (!scenarioId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Scenario ID is required'
+    })
+  }
+  
+  try {
+    // Delete the scenario
+    const result = await db
+      .delete(scenarios)
+      .where(
+        and(
+          eq(scenarios.id, scenarioId),
+          eq(scenarios.userId, userId)
+        )
+      )
+      .returning()
+    
+    if (!result[0]) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Scenario not found'
+      })
+    }
+    
+    return successResponse(null, 'Scenario deleted successfully')
+  } catch (error) {
+    // Check for productions still referencing this scenario
+    if (isDatabaseConstraintError(error) && error.code === '23503') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'Scenario is used by a production',
+        data: { code: 'SCENARIO_IN_USE' }
+      })
+    }
+    
+    return handleApiError(error, 'Failed to delete scenario')
+  }
+})
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * PUT /api/scenarios/:id
+ * 
+ * Update an existing scenario for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { scenarios } from '../../database/schema/scenarios'
+import { eq, and } from 'drizzle-orm'
+import { z } from 'zod'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+// Validation schema for updating a scenario
+const updateScenarioSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255).optional(),
+  description: z.string().min(1, 'Description is required').optional(),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Get scenario ID from route params
+  const scenarioId = getRouterParam(event, 'id')
+  if (!scenarioId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Scenario ID is required'
+    })
+  }
+  
+  // Parse and validate request body
+  const body = await readBody(event)
+  
+  let validatedData
+  try {
+    validatedData = updateScenarioSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
+  
+  // Check if there's anything to update
+  if (Object.keys(validatedData).length === 0) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'No fields to update'
+    })
+  }
+  
+  try {
+    // Update the scenario
+    const result = await db
+      .update(scenarios)
+      .set({
+        ...validatedData,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(scenarios.id, scenarioId),
+          eq(scenarios.userId, userId)
+        )
+      )
+      .returning()
+    
+    if (!result[0]) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Scenario not found'
+      })
+    }
+    
+    return successResponse(result[0], 'Scenario updated successfully')
+  } catch (error) {
+    return handleApiError(error, 'Failed to update scenario')
+  }
+})
\ No newline at end of file
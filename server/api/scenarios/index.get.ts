@@ -0,0 +1,28 @@
+/**
+ * GET /api/scenarios
+ * 
+ * List all scenarios for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { scenarios } from '../../database/schema/scenarios'
+import { desc, eq } from 'drizzle-orm'
+import { listResponse, handleApiError } from '../../utils/responses'
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  try {
+    // Get all scenarios for the user
+    const userScenarios = await db
+      .select()
+      .from(scenarios)
+      .where(eq(scenarios.userId, userId))
+      .orderBy(desc(scenarios.createdAt))
+    
+    return listResponse(userScenarios, 'scenarios')
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch scenarios')
+  }
+})
\ No newline at end of file
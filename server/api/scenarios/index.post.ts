@@ -0,0 +1,59 @@
+/**
+ * POST /api/scenarios
+ * 
+ * Create a new scenario for the authenticated user
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { scenarios } from '../../database/schema/scenarios'
+import { z } from 'zod'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+// Validation schema for creating a scenario
+const createScenarioSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  description: z.string().min(1, 'Description is required'),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  // Parse and validate request body
+  const body = await readBody(event)
+  
+  let validatedData
+  try {
+    validatedData = createScenarioSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Invalid request data'
+        : 'Invalid request data'
+    })
+  }
+  
+  try {
+    // Create the scenario
+    const result = await db
+      .insert(scenarios)
+      .values({
+        userId,
+        name: validatedData.name,
+        description: validatedData.description,
+      })
+      .returning()
+    
+    if (!result[0]) {
+      throw createError({
+        statusCode: 500,
+        statusMessage: 'Failed to create scenario'
+      })
+    }
+    
+    return successResponse(result[0], 'Scenario created successfully')
+  } catch (error) {
+    return handleApiError(error, 'Failed to create scenario')
+  }
+})
\ No newline at end of file
@@ -0,0 +1,93 @@
+/**
+ * POST /api/tokens/count
+ * 
+ * Count the tokens of a few texts for a model
+ * Uses the given model's tokenizer, otherwise the default model's,
+ * otherwise cl100k_base as an estimate
+ *
+ * Encoding blocks the event loop, so a request carries at most a few
+ * form fields' worth of text
+ */
+import { db } from '../../utils/db'
+import { requireAuth } from '../../utils/auth'
+import { models } from '../../database/schema/models'
+import { providers } from '../../database/schema/providers'
+import { z } from 'zod'
+import { and, eq } from 'drizzle-orm'
+import { getTokenCounter, tokenizerFor } from '../../utils/tokens'
+import type { TokenCounts } from '../../utils/tokens'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+// Characters counted per request, across all texts
+const MAX_TOTAL_LENGTH = 50_000
+
+// Validation schema for the texts to count, keyed by the caller
+const countTokensSchema = z.object({
+  texts: z
+    .record(z.string().nullable())
+    .refine((texts) => Object.keys(texts).length <= 20, 'At most 20 texts')
+    .refine(
+      (texts) => Object.values(texts).reduce((sum, text) => sum + (text?.length ?? 0), 0) <= MAX_TOTAL_LENGTH,
+      `At most ${MAX_TOTAL_LENGTH} characters in total`
+    ),
+  modelId: z.string().uuid('Invalid model ID').optional()
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+
+  // Validate request body
+  const body = await readBody(event)
+  
+  let validatedData: z.infer<typeof countTokensSchema>
+  try {
+    validatedData = countTokensSchema.parse(body)
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid request data'
+    })
+  }
+
+  try {
+    const [model] = await db
+      .select({ modelId: models.modelId, kind: providers.kind })
+      .from(models)
+      .innerJoin(providers, eq(models.providerId, providers.id))
+      .where(and(
+        eq(models.userId, userId),
+        validatedData.modelId
+          ? eq(models.id, validatedData.modelId)
+          : eq(models.isDefault, true)
+      ))
+      .limit(1)
+    
+    if (validatedData.modelId && !model) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Model not found'
+      })
+    }
+    
+    const counter = await getTokenCounter(
+      model ? tokenizerFor(model.kind, model.modelId) : { tokenizer: 'cl100k_base', exact: false }
+    )
+    const counts = Object.fromEntries(
+      Object.entries(validatedData.texts).map(([key, text]) => [key, counter.count(text ?? '')])
+    )
+    
+    const result: TokenCounts = {
+      tokenizer: counter.tokenizer,
+      exact: counter.exact,
+      counts,
+      total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+    }
+    
+    return successResponse(result, 'Tokens counted')
+  } catch (error) {
+    return handleApiError(error, 'Failed to count tokens')
+  }
+})
@@ -0,0 +1,49 @@
+/**
+ * GET /api/usage
+ * 
+ * Token usage and cost of the authenticated user, totalled and broken
+ * down by day, model and assistant
+ * 
+ * Query: days - length of the reporting window (default 30)
+ */
+import { requireAuth } from '../../utils/auth'
+import { z } from 'zod'
+import { getUsageSummary } from '../../utils/usage'
+import { successResponse, handleApiError } from '../../utils/responses'
+
+// Validation schema for the query string
+const usageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1, 'Days must be at least 1').max(365, 'Days must be at most 365').default(30),
+})
+
+export default defineEventHandler(async (event) => {
+  // Require authentication
+  const userId = requireAuth(event)
+  
+  let validatedQuery: z.infer<typeof usageQuerySchema>
+  try {
+    validatedQuery = usageQuerySchema.parse(getQuery(event))
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError 
+        ? error.errors[0]?.message || 'Validation error'
+        : 'Invalid query parameters'
+    })
+  }
+  
+  try {
+    // Start of the day, the first day of the window
+    const since = new Date()
+    since.setHours(0, 0, 0, 0)
+    since.setDate(since.getDate() - (validatedQuery.days - 1))
+    
+    const summary = await getUsageSummary(userId, since)
+    
+    return successResponse(summary, 'Usage summary retrieved successfully', {
+      days: validatedQuery.days,
+    })
+  } catch (error) {
+    return handleApiError(error, 'Failed to fetch usage')
+  }
+})
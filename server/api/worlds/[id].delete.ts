@@ -7,7 +7,7 @@ import { db } from '../../utils/db'
 import { requireAuth } from '../../utils/auth'
 import { worlds } from '../../database/schema/worlds'
 import { eq, and } from 'drizzle-orm'
-import { successResponse, handleApiError } from '../../utils/responses'
+import { successResponse, handleApiError, isDatabaseConstraintError } from '../../utils/responses'
 
 export default defineEventHandler(async (event) => {
   // Require authentication
@@ -43,6 +43,15 @@ export default defineEventHandler(async (event) => {
     
     return successResponse(null, 'World deleted successfully')
   } catch (error) {
+    // Check for productions still referencing this world
+    if (isDatabaseConstraintError(error) && error.code === '23503') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'World is used by a production',
+        data: { code: 'WORLD_IN_USE' }
+      })
+    }
+    
     return handleApiError(error, 'Failed to delete world')
   }
 })
\ No newline at end of file
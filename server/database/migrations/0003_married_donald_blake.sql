@@ -0,0 +1,20 @@
+CREATE TABLE "affiliations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"universal_truth" text,
+	"internal_truth" text,
+	"external_truth" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "persona_affiliations" (
+	"persona_id" uuid NOT NULL,
+	"affiliation_id" uuid NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "persona_affiliations_persona_id_affiliation_id_pk" PRIMARY KEY("persona_id","affiliation_id")
+);
+--> statement-breakpoint
+ALTER TABLE "persona_affiliations" ADD CONSTRAINT "persona_affiliations_persona_id_personas_id_fk" FOREIGN KEY ("persona_id") REFERENCES "public"."personas"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "persona_affiliations" ADD CONSTRAINT "persona_affiliations_affiliation_id_affiliations_id_fk" FOREIGN KEY ("affiliation_id") REFERENCES "public"."affiliations"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "production_assistants" (
+	"production_id" uuid NOT NULL,
+	"assistant_id" uuid NOT NULL,
+	CONSTRAINT "production_assistants_production_id_assistant_id_pk" PRIMARY KEY("production_id","assistant_id")
+);
+--> statement-breakpoint
+CREATE TABLE "productions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"world_id" uuid NOT NULL,
+	"scenario_id" uuid NOT NULL,
+	"show_directive" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "production_assistants" ADD CONSTRAINT "production_assistants_production_id_productions_id_fk" FOREIGN KEY ("production_id") REFERENCES "public"."productions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "production_assistants" ADD CONSTRAINT "production_assistants_assistant_id_assistants_id_fk" FOREIGN KEY ("assistant_id") REFERENCES "public"."assistants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "productions" ADD CONSTRAINT "productions_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "productions" ADD CONSTRAINT "productions_scenario_id_scenarios_id_fk" FOREIGN KEY ("scenario_id") REFERENCES "public"."scenarios"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
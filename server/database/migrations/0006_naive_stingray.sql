@@ -0,0 +1,12 @@
+CREATE TABLE "turns" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"production_id" uuid NOT NULL,
+	"assistant_id" uuid,
+	"content" text NOT NULL,
+	"turn_number" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "turns" ADD CONSTRAINT "turns_production_id_productions_id_fk" FOREIGN KEY ("production_id") REFERENCES "public"."productions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "turns" ADD CONSTRAINT "turns_assistant_id_assistants_id_fk" FOREIGN KEY ("assistant_id") REFERENCES "public"."assistants"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_turn_per_production" ON "turns" USING btree ("production_id","turn_number");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "assistants" ADD COLUMN "config_override" jsonb;
\ No newline at end of file
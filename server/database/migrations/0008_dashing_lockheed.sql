@@ -0,0 +1,4 @@
+ALTER TABLE "models" ADD COLUMN "context_length" integer;--> statement-breakpoint
+ALTER TABLE "models" ADD COLUMN "max_output_tokens" integer;--> statement-breakpoint
+ALTER TABLE "models" ADD COLUMN "default_settings" jsonb;--> statement-breakpoint
+ALTER TABLE "models" ADD COLUMN "capabilities" jsonb;
\ No newline at end of file
@@ -0,0 +1,73 @@
+CREATE TABLE "providers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"kind" text DEFAULT 'openai' NOT NULL,
+	"api_endpoint" text NOT NULL,
+	"api_key" text,
+	"headers" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "models" ADD COLUMN "provider_id" uuid;--> statement-breakpoint
+ALTER TABLE "models" ADD CONSTRAINT "models_provider_id_providers_id_fk" FOREIGN KEY ("provider_id") REFERENCES "public"."providers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Endpoints are compared without trailing slashes like the app does, so
+-- ".../v1" and ".../v1/" become one provider. A model saved under both
+-- spellings is merged into one row first, keeping the default or else the
+-- most recently updated one, since the slash is about to be stripped.
+CREATE TEMPORARY TABLE "model_merges" AS
+SELECT "id", first_value("id") OVER (
+	PARTITION BY "user_id", "model_id", regexp_replace("api_endpoint", '/+$', '')
+	ORDER BY "is_default" DESC, "updated_at" DESC
+) AS "keep_id"
+FROM "models";--> statement-breakpoint
+DELETE FROM "model_merges" WHERE "id" = "keep_id";--> statement-breakpoint
+-- Assistants of a persona on two merged models would become duplicates,
+-- keep the one already on the kept model or else the most recent
+CREATE TEMPORARY TABLE "assistant_merges" AS
+SELECT "id", "keep_id" FROM (
+	SELECT "assistants"."id", first_value("assistants"."id") OVER (
+		PARTITION BY "assistants"."user_id", "assistants"."persona_id", coalesce("model_merges"."keep_id", "assistants"."model_id")
+		ORDER BY ("model_merges"."id" IS NULL) DESC, "assistants"."updated_at" DESC
+	) AS "keep_id"
+	FROM "assistants"
+	LEFT JOIN "model_merges" ON "model_merges"."id" = "assistants"."model_id"
+) AS "ranked"
+WHERE "id" <> "keep_id";--> statement-breakpoint
+INSERT INTO "production_assistants" ("production_id", "assistant_id")
+SELECT "production_assistants"."production_id", "assistant_merges"."keep_id"
+FROM "production_assistants"
+INNER JOIN "assistant_merges" ON "assistant_merges"."id" = "production_assistants"."assistant_id"
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+UPDATE "turns" SET "assistant_id" = "assistant_merges"."keep_id"
+FROM "assistant_merges"
+WHERE "turns"."assistant_id" = "assistant_merges"."id";--> statement-breakpoint
+DELETE FROM "assistants" WHERE "id" IN (SELECT "id" FROM "assistant_merges");--> statement-breakpoint
+UPDATE "assistants" SET "model_id" = "model_merges"."keep_id"
+FROM "model_merges"
+WHERE "assistants"."model_id" = "model_merges"."id";--> statement-breakpoint
+DELETE FROM "models" WHERE "id" IN (SELECT "id" FROM "model_merges");--> statement-breakpoint
+DROP TABLE "assistant_merges";--> statement-breakpoint
+DROP TABLE "model_merges";--> statement-breakpoint
+UPDATE "models" SET "api_endpoint" = regexp_replace("api_endpoint", '/+$', '')
+WHERE "api_endpoint" ~ '/$';--> statement-breakpoint
+-- Move each user's distinct endpoints into providers, keeping the most
+-- recently updated key when several models share an endpoint
+INSERT INTO "providers" ("user_id", "name", "kind", "api_endpoint", "api_key")
+SELECT DISTINCT ON ("user_id", "api_endpoint")
+	"user_id",
+	regexp_replace("api_endpoint", '^https?://', ''),
+	CASE
+		WHEN "api_endpoint" ~* '^https?://([^/]*\.)?anthropic\.com(:[0-9]+)?(/|$)' THEN 'anthropic'
+		WHEN "api_endpoint" ~ '/api/?$' THEN 'ollama'
+		ELSE 'openai'
+	END,
+	"api_endpoint",
+	"api_key"
+FROM "models"
+ORDER BY "user_id", "api_endpoint", ("api_key" IS NULL), "updated_at" DESC;--> statement-breakpoint
+UPDATE "models" SET "provider_id" = "providers"."id"
+FROM "providers"
+WHERE "providers"."user_id" = "models"."user_id"
+	AND "providers"."api_endpoint" = "models"."api_endpoint";
@@ -0,0 +1,5 @@
+DROP INDEX "idx_unique_model_per_user";--> statement-breakpoint
+ALTER TABLE "models" ALTER COLUMN "provider_id" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_unique_model_per_provider" ON "models" USING btree ("provider_id","model_id");--> statement-breakpoint
+ALTER TABLE "models" DROP COLUMN "api_endpoint";--> statement-breakpoint
+ALTER TABLE "models" DROP COLUMN "api_key";
\ No newline at end of file
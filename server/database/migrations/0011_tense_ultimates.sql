@@ -0,0 +1,11 @@
+CREATE TABLE "model_health_checks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"model_id" uuid NOT NULL,
+	"ok" boolean NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"error_code" text,
+	"checked_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "model_health_checks" ADD CONSTRAINT "model_health_checks_model_id_models_id_fk" FOREIGN KEY ("model_id") REFERENCES "public"."models"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_model_health_checks_model_checked_at" ON "model_health_checks" USING btree ("model_id","checked_at");
\ No newline at end of file
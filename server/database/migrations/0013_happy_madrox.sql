@@ -0,0 +1,2 @@
+ALTER TABLE "providers" ADD COLUMN "max_concurrency" integer;--> statement-breakpoint
+ALTER TABLE "providers" ADD COLUMN "requests_per_minute" integer;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "assistant_fallbacks" (
+	"assistant_id" uuid NOT NULL,
+	"model_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	CONSTRAINT "assistant_fallbacks_assistant_id_model_id_pk" PRIMARY KEY("assistant_id","model_id")
+);
+--> statement-breakpoint
+ALTER TABLE "turns" ADD COLUMN "model_id" uuid;--> statement-breakpoint
+ALTER TABLE "assistant_fallbacks" ADD CONSTRAINT "assistant_fallbacks_assistant_id_assistants_id_fk" FOREIGN KEY ("assistant_id") REFERENCES "public"."assistants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "assistant_fallbacks" ADD CONSTRAINT "assistant_fallbacks_model_id_models_id_fk" FOREIGN KEY ("model_id") REFERENCES "public"."models"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "turns" ADD CONSTRAINT "turns_model_id_models_id_fk" FOREIGN KEY ("model_id") REFERENCES "public"."models"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Turns so far were all answered by the assistant's own model
+UPDATE "turns" SET "model_id" = "assistants"."model_id" FROM "assistants" WHERE "turns"."assistant_id" = "assistants"."id";
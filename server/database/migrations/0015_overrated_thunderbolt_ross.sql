@@ -0,0 +1 @@
+ALTER TABLE "models" ADD COLUMN "headers" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "models" ADD COLUMN "probed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "personas" ADD COLUMN "avatar_url" text;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "persona_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"persona_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"revision" integer NOT NULL,
+	"name" text NOT NULL,
+	"universal_truth" text,
+	"internal_truth" text,
+	"external_truth" text,
+	"source" text NOT NULL,
+	"restored_from" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "persona_revisions" ADD CONSTRAINT "persona_revisions_persona_id_personas_id_fk" FOREIGN KEY ("persona_id") REFERENCES "public"."personas"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_persona_revisions_persona_revision" ON "persona_revisions" USING btree ("persona_id","revision");--> statement-breakpoint
+-- Start the history of existing personas with their current texts
+INSERT INTO "persona_revisions" ("persona_id", "user_id", "revision", "name", "universal_truth", "internal_truth", "external_truth", "source", "created_at")
+SELECT "id", "user_id", 1, "name", "universal_truth", "internal_truth", "external_truth", 'create', "updated_at"
+FROM "personas";
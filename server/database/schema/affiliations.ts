@@ -0,0 +1,116 @@
+import { pgTable, text, timestamp, uuid, primaryKey } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+import { personas } from './personas'
+
+/**
+ * Affiliations table for storing group/organization definitions
+ *
+ * Each affiliation has three layers of truth:
+ * - Universal: Public facts known to everyone
+ * - Internal: Shared secrets known only to members
+ * - External: How non-members perceive them
+ */
+export const affiliations = pgTable('affiliations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(), // From OIDC auth (user.sub)
+  name: text('name').notNull(), // Affiliation name (e.g., "NYPD Undercover Unit")
+  universalTruth: text('universal_truth'), // Public facts
+  internalTruth: text('internal_truth'), // Shared secrets among members
+  externalTruth: text('external_truth'), // How non-members perceive them
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+/**
+ * Persona affiliations table - junction between Personas and Affiliations
+ *
+ * A persona can be a member of zero or more affiliations. Membership
+ * grants the persona access to the affiliation's internal truth.
+ */
+export const personaAffiliations = pgTable('persona_affiliations', {
+  personaId: uuid('persona_id').notNull().references(() => personas.id, { onDelete: 'cascade' }),
+  affiliationId: uuid('affiliation_id').notNull().references(() => affiliations.id, { onDelete: 'cascade' }),
+  joinedAt: timestamp('joined_at').defaultNow().notNull(),
+}, (table) => ({
+  // A persona can only join an affiliation once
+  pk: primaryKey({ columns: [table.personaId, table.affiliationId] }),
+}))
+
+/**
+ * RLS Policies for affiliations table
+ *
+ * These ensure complete user isolation:
+ * 1. Users can only SELECT their own affiliations
+ * 2. Users can only INSERT affiliations with their userId
+ * 3. Users can only UPDATE their own affiliations
+ * 4. Users can only DELETE their own affiliations
+ */
+export const affiliationsRLSPolicies = sql`
+  -- Enable RLS on the affiliations table
+  ALTER TABLE affiliations ENABLE ROW LEVEL SECURITY;
+
+  -- Policy: Users can only see their own affiliations
+  CREATE POLICY affiliations_select_policy ON affiliations
+    FOR SELECT
+    USING (user_id = auth.user_id());
+
+  -- Policy: Users can only insert affiliations for themselves
+  CREATE POLICY affiliations_insert_policy ON affiliations
+    FOR INSERT
+    WITH CHECK (user_id = auth.user_id());
+
+  -- Policy: Users can only update their own affiliations
+  CREATE POLICY affiliations_update_policy ON affiliations
+    FOR UPDATE
+    USING (user_id = auth.user_id())
+    WITH CHECK (user_id = auth.user_id());
+
+  -- Policy: Users can only delete their own affiliations
+  CREATE POLICY affiliations_delete_policy ON affiliations
+    FOR DELETE
+    USING (user_id = auth.user_id());
+`
+
+/**
+ * RLS Policies for persona_affiliations table
+ *
+ * The junction has no user_id of its own, so ownership is derived
+ * from the linked persona and affiliation:
+ * 1. Users can only SELECT memberships of their own personas
+ * 2. Users can only INSERT memberships linking their own persona and affiliation
+ * 3. Users can only DELETE memberships of their own personas
+ */
+export const personaAffiliationsRLSPolicies = sql`
+  -- Enable RLS on the persona_affiliations table
+  ALTER TABLE persona_affiliations ENABLE ROW LEVEL SECURITY;
+
+  -- Policy: Users can only see memberships of their own personas
+  CREATE POLICY persona_affiliations_select_policy ON persona_affiliations
+    FOR SELECT
+    USING (EXISTS (
+      SELECT 1 FROM personas
+      WHERE personas.id = persona_id AND personas.user_id = auth.user_id()
+    ));
+
+  -- Policy: Users can only link their own personas to their own affiliations
+  CREATE POLICY persona_affiliations_insert_policy ON persona_affiliations
+    FOR INSERT
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM personas
+        WHERE personas.id = persona_id AND personas.user_id = auth.user_id()
+      )
+      AND EXISTS (
+        SELECT 1 FROM affiliations
+        WHERE affiliations.id = affiliation_id AND affiliations.user_id = auth.user_id()
+      )
+    );
+
+  -- Policy: Users can only remove memberships of their own personas
+  CREATE POLICY persona_affiliations_delete_policy ON persona_affiliations
+    FOR DELETE
+    USING (EXISTS (
+      SELECT 1 FROM personas
+      WHERE personas.id = persona_id AND personas.user_id = auth.user_id()
+    ));
+`
@@ -1,6 +1,7 @@
-import { pgTable, text, timestamp, uuid, uniqueIndex } from 'drizzle-orm/pg-core'
+import { pgTable, text, timestamp, uuid, uniqueIndex, jsonb, integer, primaryKey } from 'drizzle-orm/pg-core'
 import { sql } from 'drizzle-orm'
 import { models } from './models'
+import type { ModelSettings } from './models'
 import { personas } from './personas'
 
 /**
@@ -16,6 +17,7 @@ export const assistants = pgTable('assistants', {
   personaId: uuid('persona_id').notNull().references(() => personas.id, { onDelete: 'cascade' }),
   modelId: uuid('model_id').notNull().references(() => models.id, { onDelete: 'cascade' }),
   name: text('name'), // Optional override name for display
+  configOverride: jsonb('config_override').$type<ModelSettings>(), // Optional model config overrides
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -57,4 +59,59 @@ export const assistantsRLSPolicies = sql`
   CREATE POLICY assistants_delete_policy ON assistants
     FOR DELETE
     USING (user_id = auth.user_id());
-`
\ No newline at end of file
+`
+/**
+ * Assistant fallbacks table - ordered backup models of an assistant
+ *
+ * When the assistant's own model fails with a timeout, server error,
+ * rate limit or is unreachable, generation moves on to these models
+ * in order of position.
+ */
+export const assistantFallbacks = pgTable('assistant_fallbacks', {
+  assistantId: uuid('assistant_id').notNull().references(() => assistants.id, { onDelete: 'cascade' }),
+  modelId: uuid('model_id').notNull().references(() => models.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(), // Order of the fallback, starting at 0
+}, (table) => ({
+  // A model can only appear once in a chain
+  pk: primaryKey({ columns: [table.assistantId, table.modelId] }),
+}))
+
+/**
+ * RLS Policies for assistant_fallbacks table
+ *
+ * Ownership is derived from the linked assistant and model
+ */
+export const assistantFallbacksRLSPolicies = sql`
+  -- Enable RLS on the assistant_fallbacks table
+  ALTER TABLE assistant_fallbacks ENABLE ROW LEVEL SECURITY;
+
+  -- Policy: Users can only see fallbacks of their own assistants
+  CREATE POLICY assistant_fallbacks_select_policy ON assistant_fallbacks
+    FOR SELECT
+    USING (EXISTS (
+      SELECT 1 FROM assistants
+      WHERE assistants.id = assistant_id AND assistants.user_id = auth.user_id()
+    ));
+
+  -- Policy: Users can only chain their own models to their own assistants
+  CREATE POLICY assistant_fallbacks_insert_policy ON assistant_fallbacks
+    FOR INSERT
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM assistants
+        WHERE assistants.id = assistant_id AND assistants.user_id = auth.user_id()
+      )
+      AND EXISTS (
+        SELECT 1 FROM models
+        WHERE models.id = model_id AND models.user_id = auth.user_id()
+      )
+    );
+
+  -- Policy: Users can only remove fallbacks of their own assistants
+  CREATE POLICY assistant_fallbacks_delete_policy ON assistant_fallbacks
+    FOR DELETE
+    USING (EXISTS (
+      SELECT 1 FROM assistants
+      WHERE assistants.id = assistant_id AND assistants.user_id = auth.user_id()
+    ));
+`
@@ -0,0 +1,43 @@
+import { pgTable, text, timestamp, uuid, integer, boolean, index } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+import { models } from './models'
+import type { LLMErrorCode } from '../../utils/llm/errors'
+
+/**
+ * Model health checks table - history of background probes
+ *
+ * A scheduled task sends every model a tiny request and records
+ * whether it answered, how long it took and why it failed.
+ */
+export const modelHealthChecks = pgTable('model_health_checks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  modelId: uuid('model_id').notNull().references(() => models.id, { onDelete: 'cascade' }),
+  ok: boolean('ok').notNull(), // The model answered
+  latencyMs: integer('latency_ms').notNull(), // Time until the answer or failure
+  errorCode: text('error_code').$type<LLMErrorCode>(), // Failure category, null when ok
+  checkedAt: timestamp('checked_at').defaultNow().notNull(),
+}, (table) => ({
+  // History is always read per model, newest first
+  modelCheckedAt: index('idx_model_health_checks_model_checked_at')
+    .on(table.modelId, table.checkedAt),
+}))
+
+/**
+ * RLS Policies for model_health_checks table
+ *
+ * Ownership is derived from the linked model. Checks are written by
+ * the background task, so users can only read them:
+ * 1. Users can only SELECT checks of their own models
+ */
+export const modelHealthChecksRLSPolicies = sql`
+  -- Enable RLS on the model_health_checks table
+  ALTER TABLE model_health_checks ENABLE ROW LEVEL SECURITY;
+
+  -- Policy: Users can only see checks of their own models
+  CREATE POLICY model_health_checks_select_policy ON model_health_checks
+    FOR SELECT
+    USING (EXISTS (
+      SELECT 1 FROM models
+      WHERE models.id = model_id AND models.user_id = auth.user_id()
+    ));
+`
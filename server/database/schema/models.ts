@@ -1,20 +1,53 @@
-import { pgTable, text, timestamp, uuid, boolean, uniqueIndex } from 'drizzle-orm/pg-core'
+import { pgTable, text, timestamp, uuid, boolean, uniqueIndex, integer, jsonb, numeric } from 'drizzle-orm/pg-core'
 import { sql } from 'drizzle-orm'
+import { providers } from './providers'
+
+/**
+ * Sampling parameters sent to the provider
+ * Every field is optional, unset fields fall back to the next layer
+ */
+export type ModelSettings = {
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  stop?: string[]
+  presencePenalty?: number
+  frequencyPenalty?: number
+}
+
+/**
+ * Features a model supports, unset when unknown
+ */
+export type ModelCapabilities = {
+  systemPrompt?: boolean // Accepts a system message
+  streaming?: boolean // Can stream replies
+  jsonMode?: boolean // Can be forced to reply with JSON
+  toolCalling?: boolean // Can call functions it is given
+  maxTokens?: boolean // Stops at the requested output limit
+}
 
 /**
  * Models table for storing LLM configurations
  * 
  * Each user can have multiple models configured with different
  * providers and settings. Only one model can be marked as default.
+ * The endpoint and API key live on the referenced provider.
  */
 export const models = pgTable('models', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: text('user_id').notNull(), // From OIDC auth (user.sub)
   name: text('name').notNull(), // Display name (e.g., "GPT-4 Turbo")
-  apiEndpoint: text('api_endpoint').notNull(), // Full API endpoint URL
-  apiKey: text('api_key'), // Nullable for local/Ollama models
   modelId: text('model_id').notNull(), // Model identifier for the endpoint
+  providerId: uuid('provider_id').notNull().references(() => providers.id), // Connection used to reach the model
   isDefault: boolean('is_default').default(false).notNull(),
+  contextLength: integer('context_length'), // Context window in tokens
+  maxOutputTokens: integer('max_output_tokens'), // Longest possible reply in tokens
+  defaultSettings: jsonb('default_settings').$type<ModelSettings>(), // Default sampling parameters
+  capabilities: jsonb('capabilities').$type<ModelCapabilities>(), // Supported features
+  inputPrice: numeric('input_price', { precision: 12, scale: 4, mode: 'number' }), // Price per million prompt tokens
+  outputPrice: numeric('output_price', { precision: 12, scale: 4, mode: 'number' }), // Price per million completion tokens
+  headers: jsonb('headers').$type<Record<string, string>>(), // Extra request headers, override the provider's
+  probedAt: timestamp('probed_at'), // Last capability probe
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -23,9 +56,9 @@ export const models = pgTable('models', {
     .on(table.userId)
     .where(sql`${table.isDefault} = true`),
   
-  // Ensure no duplicate models per user (same model ID and endpoint)
-  uniqueModelPerUser: uniqueIndex('idx_unique_model_per_user')
-    .on(table.userId, table.modelId, table.apiEndpoint),
+  // Ensure no duplicate models per provider (same model ID)
+  uniqueModelPerProvider: uniqueIndex('idx_unique_model_per_provider')
+    .on(table.providerId, table.modelId),
 }))
 
 /**
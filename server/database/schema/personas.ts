@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core'
+import { integer, pgTable, text, timestamp, uniqueIndex, uuid } from 'drizzle-orm/pg-core'
 import { sql } from 'drizzle-orm'
 
 /**
@@ -16,10 +16,41 @@ export const personas = pgTable('personas', {
   universalTruth: text('universal_truth'), // Public facts
   internalTruth: text('internal_truth'), // Personal secrets/private knowledge
   externalTruth: text('external_truth'), // How others perceive them
+  avatarUrl: text('avatar_url'), // Versioned URL of the uploaded avatar, null when none
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
 
+/**
+ * How a persona revision came about
+ */
+export type PersonaRevisionSource = 'create' | 'update' | 'restore'
+
+/**
+ * Persona revisions table - immutable history of the persona texts
+ *
+ * Every create, update and restore writes a snapshot of the name and
+ * the three truths. Restoring an old revision copies it into a new one,
+ * so the history only ever grows.
+ */
+export const personaRevisions = pgTable('persona_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  personaId: uuid('persona_id').notNull().references(() => personas.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(), // From OIDC auth (user.sub)
+  revision: integer('revision').notNull(), // Counts up from 1 per persona
+  name: text('name').notNull(),
+  universalTruth: text('universal_truth'),
+  internalTruth: text('internal_truth'),
+  externalTruth: text('external_truth'),
+  source: text('source').$type<PersonaRevisionSource>().notNull(),
+  restoredFrom: integer('restored_from'), // Revision number copied by a restore
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  // Revision numbers are unique per persona and read newest first
+  personaRevision: uniqueIndex('idx_persona_revisions_persona_revision')
+    .on(table.personaId, table.revision),
+}))
+
 /**
  * RLS Policies for personas table
  * 
@@ -53,4 +84,26 @@ export const personasRLSPolicies = sql`
   CREATE POLICY personas_delete_policy ON personas
     FOR DELETE
     USING (user_id = auth.user_id());
-`
\ No newline at end of file
+`
+/**
+ * RLS Policies for persona_revisions table
+ *
+ * Revisions are immutable, so there are no UPDATE policies:
+ * 1. Users can only SELECT their own revisions
+ * 2. Users can only INSERT revisions with their userId
+ * Deleting happens through the cascade from personas.
+ */
+export const personaRevisionsRLSPolicies = sql`
+  -- Enable RLS on the persona_revisions table
+  ALTER TABLE persona_revisions ENABLE ROW LEVEL SECURITY;
+  
+  -- Policy: Users can only see their own revisions
+  CREATE POLICY persona_revisions_select_policy ON persona_revisions
+    FOR SELECT
+    USING (user_id = auth.user_id());
+  
+  -- Policy: Users can only insert revisions for themselves
+  CREATE POLICY persona_revisions_insert_policy ON persona_revisions
+    FOR INSERT
+    WITH CHECK (user_id = auth.user_id());
+`
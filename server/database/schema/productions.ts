@@ -0,0 +1,112 @@
+import { pgTable, text, timestamp, uuid, boolean, primaryKey } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+import { assistants } from './assistants'
+import { scenarios } from './scenarios'
+import { worlds } from './worlds'
+
+/**
+ * Productions table - conversation containers
+ *
+ * A production brings two or more assistants together in a world
+ * and scenario. Worlds and scenarios cannot be deleted while a
+ * production still uses them.
+ */
+export const productions = pgTable('productions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(), // From OIDC auth (user.sub)
+  name: text('name').notNull(), // Production name (e.g., "Therapy Session")
+  worldId: uuid('world_id').notNull().references(() => worlds.id),
+  scenarioId: uuid('scenario_id').notNull().references(() => scenarios.id),
+  showDirective: boolean('show_directive').default(false).notNull(), // Show system prompts in UI
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+/**
+ * Production assistants table - junction between Productions and Assistants
+ */
+export const productionAssistants = pgTable('production_assistants', {
+  productionId: uuid('production_id').notNull().references(() => productions.id, { onDelete: 'cascade' }),
+  assistantId: uuid('assistant_id').notNull().references(() => assistants.id, { onDelete: 'cascade' }),
+}, (table) => ({
+  // An assistant can only take part in a production once
+  pk: primaryKey({ columns: [table.productionId, table.assistantId] }),
+}))
+
+/**
+ * RLS Policies for productions table
+ *
+ * These ensure complete user isolation:
+ * 1. Users can only SELECT their own productions
+ * 2. Users can only INSERT productions with their userId
+ * 3. Users can only UPDATE their own productions
+ * 4. Users can only DELETE their own productions
+ */
+export const productionsRLSPolicies = sql`
+  -- Enable RLS on the productions table
+  ALTER TABLE productions ENABLE ROW LEVEL SECURITY;
+
+  -- Policy: Users can only see their own productions
+  CREATE POLICY productions_select_policy ON productions
+    FOR SELECT
+    USING (user_id = auth.user_id());
+
+  -- Policy: Users can only insert productions for themselves
+  CREATE POLICY productions_insert_policy ON productions
+    FOR INSERT
+    WITH CHECK (user_id = auth.user_id());
+
+  -- Policy: Users can only update their own productions
+  CREATE POLICY productions_update_policy ON productions
+    FOR UPDATE
+    USING (user_id = auth.user_id())
+    WITH CHECK (user_id = auth.user_id());
+
+  -- Policy: Users can only delete their own productions
+  CREATE POLICY productions_delete_policy ON productions
+    FOR DELETE
+    USING (user_id = auth.user_id());
+`
+
+/**
+ * RLS Policies for production_assistants table
+ *
+ * Ownership is derived from the linked production and assistant:
+ * 1. Users can only SELECT participants of their own productions
+ * 2. Users can only INSERT their own assistants into their own productions
+ * 3. Users can only DELETE participants of their own productions
+ */
+export const productionAssistantsRLSPolicies = sql`
+  -- Enable RLS on the production_assistants table
+  ALTER TABLE production_assistants ENABLE ROW LEVEL SECURITY;
+
+  -- Policy: Users can only see participants of their own productions
+  CREATE POLICY production_assistants_select_policy ON production_assistants
+    FOR SELECT
+    USING (EXISTS (
+      SELECT 1 FROM productions
+      WHERE productions.id = production_id AND productions.user_id = auth.user_id()
+    ));
+
+  -- Policy: Users can only add their own assistants to their own productions
+  CREATE POLICY production_assistants_insert_policy ON production_assistants
+    FOR INSERT
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM productions
+        WHERE productions.id = production_id AND productions.user_id = auth.user_id()
+      )
+      AND EXISTS (
+        SELECT 1 FROM assistants
+        WHERE assistants.id = assistant_id AND assistants.user_id = auth.user_id()
+      )
+    );
+
+  -- Policy: Users can only remove participants of their own productions
+  CREATE POLICY production_assistants_delete_policy ON production_assistants
+    FOR DELETE
+    USING (EXISTS (
+      SELECT 1 FROM productions
+      WHERE productions.id = production_id AND productions.user_id = auth.user_id()
+    ));
+`
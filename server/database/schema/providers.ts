@@ -0,0 +1,60 @@
+import { pgTable, text, timestamp, uuid, jsonb, integer } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+import type { ProviderKind } from '../../utils/llm/types'
+
+/**
+ * Providers table for storing API connections
+ *
+ * A provider holds the endpoint, encrypted API key and any extra
+ * headers once, so every model served by it shares the same
+ * connection and a key only has to be rotated in one place.
+ * The request limits throttle every call made through the provider.
+ */
+export const providers = pgTable('providers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(), // From OIDC auth (user.sub)
+  name: text('name').notNull(), // Display name (e.g., "OpenAI")
+  kind: text('kind').$type<ProviderKind>().default('openai').notNull(), // API flavour
+  apiEndpoint: text('api_endpoint').notNull(), // Full API endpoint URL
+  apiKey: text('api_key'), // Nullable for local/Ollama providers
+  headers: jsonb('headers').$type<Record<string, string>>(), // Extra request headers
+  maxConcurrency: integer('max_concurrency'), // Requests in flight at once, unlimited when null
+  requestsPerMinute: integer('requests_per_minute'), // Requests started per minute, unlimited when null
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+/**
+ * RLS Policies for providers table
+ *
+ * These ensure complete user isolation:
+ * 1. Users can only SELECT their own providers
+ * 2. Users can only INSERT providers with their userId
+ * 3. Users can only UPDATE their own providers
+ * 4. Users can only DELETE their own providers
+ */
+export const providersRLSPolicies = sql`
+  -- Enable RLS on the providers table
+  ALTER TABLE providers ENABLE ROW LEVEL SECURITY;
+
+  -- Policy: Users can only see their own providers
+  CREATE POLICY providers_select_policy ON providers
+    FOR SELECT
+    USING (user_id = auth.user_id());
+
+  -- Policy: Users can only insert providers for themselves
+  CREATE POLICY providers_insert_policy ON providers
+    FOR INSERT
+    WITH CHECK (user_id = auth.user_id());
+
+  -- Policy: Users can only update their own providers
+  CREATE POLICY providers_update_policy ON providers
+    FOR UPDATE
+    USING (user_id = auth.user_id())
+    WITH CHECK (user_id = auth.user_id());
+
+  -- Policy: Users can only delete their own providers
+  CREATE POLICY providers_delete_policy ON providers
+    FOR DELETE
+    USING (user_id = auth.user_id());
+`
@@ -0,0 +1,54 @@
+import { pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+
+/**
+ * Scenarios table for storing reusable starting situations
+ * 
+ * Scenarios describe the public starting situation of a production.
+ * Only information every participant may know belongs here - secrets
+ * live in persona and affiliation truths.
+ * Examples: "First Therapy Session", "Job interview at a startup"
+ */
+export const scenarios = pgTable('scenarios', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(), // From OIDC auth (user.sub)
+  name: text('name').notNull(), // Scenario name (e.g., "First Therapy Session")
+  description: text('description').notNull(), // Starting situation (public info only)
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+/**
+ * RLS Policies for scenarios table
+ * 
+ * These ensure complete user isolation:
+ * 1. Users can only SELECT their own scenarios
+ * 2. Users can only INSERT scenarios with their userId
+ * 3. Users can only UPDATE their own scenarios
+ * 4. Users can only DELETE their own scenarios
+ */
+export const scenariosRLSPolicies = sql`
+  -- Enable RLS on the scenarios table
+  ALTER TABLE scenarios ENABLE ROW LEVEL SECURITY;
+  
+  -- Policy: Users can only see their own scenarios
+  CREATE POLICY scenarios_select_policy ON scenarios
+    FOR SELECT
+    USING (user_id = auth.user_id());
+  
+  -- Policy: Users can only insert scenarios for themselves  
+  CREATE POLICY scenarios_insert_policy ON scenarios
+    FOR INSERT
+    WITH CHECK (user_id = auth.user_id());
+  
+  -- Policy: Users can only update their own scenarios
+  CREATE POLICY scenarios_update_policy ON scenarios
+    FOR UPDATE
+    USING (user_id = auth.user_id())
+    WITH CHECK (user_id = auth.user_id());
+  
+  -- Policy: Users can only delete their own scenarios
+  CREATE POLICY scenarios_delete_policy ON scenarios
+    FOR DELETE
+    USING (user_id = auth.user_id());
+`
\ No newline at end of file
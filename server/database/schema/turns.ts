@@ -0,0 +1,64 @@
+import { pgTable, text, timestamp, uuid, integer, uniqueIndex } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+import { assistants } from './assistants'
+import { models } from './models'
+import { productions } from './productions'
+
+/**
+ * Turns table - conversation messages within a production
+ *
+ * Each turn is one assistant's reply. Turns outlive the assistant
+ * that spoke them so the transcript stays intact. The model is the
+ * one that actually answered, which may be one of the assistant's
+ * fallbacks.
+ */
+export const turns = pgTable('turns', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  productionId: uuid('production_id').notNull().references(() => productions.id, { onDelete: 'cascade' }),
+  assistantId: uuid('assistant_id').references(() => assistants.id, { onDelete: 'set null' }),
+  modelId: uuid('model_id').references(() => models.id, { onDelete: 'set null' }), // Model that generated the reply
+  content: text('content').notNull(),
+  turnNumber: integer('turn_number').notNull(), // Position in the conversation, starting at 1
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  // Each position in a conversation can only be taken once
+  uniqueTurnPerProduction: uniqueIndex('idx_unique_turn_per_production')
+    .on(table.productionId, table.turnNumber),
+}))
+
+/**
+ * RLS Policies for turns table
+ *
+ * Ownership is derived from the linked production:
+ * 1. Users can only SELECT turns of their own productions
+ * 2. Users can only INSERT turns into their own productions
+ * 3. Users can only DELETE turns of their own productions
+ */
+export const turnsRLSPolicies = sql`
+  -- Enable RLS on the turns table
+  ALTER TABLE turns ENABLE ROW LEVEL SECURITY;
+
+  -- Policy: Users can only see turns of their own productions
+  CREATE POLICY turns_select_policy ON turns
+    FOR SELECT
+    USING (EXISTS (
+      SELECT 1 FROM productions
+      WHERE productions.id = production_id AND productions.user_id = auth.user_id()
+    ));
+
+  -- Policy: Users can only add turns to their own productions
+  CREATE POLICY turns_insert_policy ON turns
+    FOR INSERT
+    WITH CHECK (EXISTS (
+      SELECT 1 FROM productions
+      WHERE productions.id = production_id AND productions.user_id = auth.user_id()
+    ));
+
+  -- Policy: Users can only delete turns of their own productions
+  CREATE POLICY turns_delete_policy ON turns
+    FOR DELETE
+    USING (EXISTS (
+      SELECT 1 FROM productions
+      WHERE productions.id = production_id AND productions.user_id = auth.user_id()
+    ));
+`
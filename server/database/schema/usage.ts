@@ -0,0 +1,51 @@
+import { pgTable, text, timestamp, uuid, integer, numeric, index } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+import { assistants } from './assistants'
+import { models } from './models'
+import { productions } from './productions'
+
+/**
+ * Usage records table - token ledger
+ *
+ * One row per provider call with the token counts it reported. The
+ * cost is calculated from the model's prices at the time of the call,
+ * so later price changes do not rewrite history. Records outlive the
+ * model, assistant and production they belong to.
+ */
+export const usageRecords = pgTable('usage_records', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(), // From OIDC auth (user.sub)
+  modelId: uuid('model_id').references(() => models.id, { onDelete: 'set null' }),
+  assistantId: uuid('assistant_id').references(() => assistants.id, { onDelete: 'set null' }),
+  productionId: uuid('production_id').references(() => productions.id, { onDelete: 'set null' }),
+  inputTokens: integer('input_tokens').notNull(), // Prompt tokens
+  outputTokens: integer('output_tokens').notNull(), // Completion tokens
+  cost: numeric('cost', { precision: 14, scale: 6, mode: 'number' }), // Null when the model has no prices
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  // Usage is always summarized per user over a time range
+  userCreatedAt: index('idx_usage_records_user_created_at')
+    .on(table.userId, table.createdAt),
+}))
+
+/**
+ * RLS Policies for usage_records table
+ *
+ * These ensure complete user isolation:
+ * 1. Users can only SELECT their own usage
+ * 2. Users can only INSERT usage with their userId
+ */
+export const usageRecordsRLSPolicies = sql`
+  -- Enable RLS on the usage_records table
+  ALTER TABLE usage_records ENABLE ROW LEVEL SECURITY;
+
+  -- Policy: Users can only see their own usage
+  CREATE POLICY usage_records_select_policy ON usage_records
+    FOR SELECT
+    USING (user_id = auth.user_id());
+
+  -- Policy: Users can only record usage for themselves
+  CREATE POLICY usage_records_insert_policy ON usage_records
+    FOR INSERT
+    WITH CHECK (user_id = auth.user_id());
+`
@@ -0,0 +1,16 @@
+/**
+ * Check the encryption configuration at startup
+ *
+ * Stored API keys cannot be read or written without a key, so a
+ * production server refuses to start when ENCRYPTION_KEY is missing
+ * instead of failing on the first model request.
+ */
+import { assertEncryptionConfigured } from '../utils/crypto'
+
+export default defineNitroPlugin(() => {
+  assertEncryptionConfigured()
+
+  if (!process.env.ENCRYPTION_KEY) {
+    console.warn('ENCRYPTION_KEY is not set, using the development key')
+  }
+})
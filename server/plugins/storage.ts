@@ -0,0 +1,11 @@
+/**
+ * Mount the avatar storage at startup
+ *
+ * The driver is picked from the environment when the server starts, so
+ * a built server can switch between local disk and S3 without a rebuild.
+ */
+import { createAvatarDriver } from '../utils/avatars'
+
+export default defineNitroPlugin(() => {
+  useStorage().mount('avatars', createAvatarDriver())
+})
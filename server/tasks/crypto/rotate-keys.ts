@@ -0,0 +1,69 @@
+/**
+ * Task crypto:rotate-keys
+ *
+ * Re-encrypts every stored provider API key with the current encryption
+ * key. Run after changing ENCRYPTION_KEY / ENCRYPTION_KEY_ID, with the
+ * old secret listed in ENCRYPTION_PREVIOUS_KEYS:
+ *
+ *   npx nuxi task run crypto:rotate-keys
+ *
+ * Plain text keys stored before encryption was introduced are encrypted.
+ * Rows that cannot be decrypted are left untouched and reported.
+ */
+import { eq, isNotNull } from 'drizzle-orm'
+import { db } from '../../utils/db'
+import { providers } from '../../database/schema/providers'
+import { encrypt, isEncrypted, needsReencryption, reencrypt } from '../../utils/crypto'
+
+export default defineTask({
+  meta: {
+    name: 'crypto:rotate-keys',
+    description: 'Re-encrypt stored provider API keys with the current key',
+  },
+  async run() {
+    const result = await db.transaction(async (tx) => {
+      const rows = await tx
+        .select({ id: providers.id, apiKey: providers.apiKey })
+        .from(providers)
+        .where(isNotNull(providers.apiKey))
+        .for('update')
+
+      let rotated = 0
+      let encrypted = 0
+      const failed: string[] = []
+
+      for (const row of rows) {
+        if (!isEncrypted(row.apiKey)) {
+          await tx
+            .update(providers)
+            .set({ apiKey: encrypt(row.apiKey) })
+            .where(eq(providers.id, row.id))
+          encrypted++
+          continue
+        }
+
+        if (!needsReencryption(row.apiKey)) continue
+
+        const apiKey = reencrypt(row.apiKey)
+        if (!apiKey) {
+          failed.push(row.id)
+          continue
+        }
+
+        await tx
+          .update(providers)
+          .set({ apiKey })
+          .where(eq(providers.id, row.id))
+        rotated++
+      }
+
+      return { total: rows.length, rotated, encrypted, failed }
+    })
+
+    if (result.failed.length > 0) {
+      console.error(`Could not decrypt API keys for providers: ${result.failed.join(', ')}`)
+    }
+
+    return { result }
+  },
+})
@@ -0,0 +1,21 @@
+/**
+ * Task models:health
+ *
+ * Probes every configured model and records latency, success and
+ * error category in model_health_checks. Scheduled in nuxt.config.ts,
+ * can also be run by hand:
+ *
+ *   npx nuxi task run models:health
+ */
+import { runHealthChecks } from '../../utils/health'
+
+export default defineTask({
+  meta: {
+    name: 'models:health',
+    description: 'Probe every model and record its health',
+  },
+  async run() {
+    const result = await runHealthChecks()
+    return { result }
+  },
+})
@@ -0,0 +1,21 @@
+/**
+ * Task models:probe
+ *
+ * Probes the capabilities of every model that was never probed, e.g.
+ * models created before probing existed or without the probe option.
+ * Run by hand:
+ *
+ *   npx nuxi task run models:probe
+ */
+import { probeUnprobedModels } from '../../utils/capabilities'
+
+export default defineTask({
+  meta: {
+    name: 'models:probe',
+    description: 'Probe the capabilities of models never probed',
+  },
+  async run() {
+    const result = await probeUnprobedModels()
+    return { result }
+  },
+})
@@ -0,0 +1,89 @@
+/**
+ * Persona membership utilities
+ *
+ * Helpers for reading and writing the persona_affiliations junction
+ */
+import { and, eq, inArray, notInArray } from 'drizzle-orm'
+import { db } from './db'
+import { affiliations, personaAffiliations } from '../database/schema/affiliations'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+/**
+ * Get affiliation IDs for the given personas, keyed by persona ID
+ */
+export async function getAffiliationIdsByPersona(
+  personaIds: string[]
+): Promise<Map<string, string[]>> {
+  const memberships = new Map<string, string[]>()
+  if (personaIds.length === 0) return memberships
+
+  const rows = await db
+    .select()
+    .from(personaAffiliations)
+    .where(inArray(personaAffiliations.personaId, personaIds))
+
+  for (const row of rows) {
+    const ids = memberships.get(row.personaId) || []
+    ids.push(row.affiliationId)
+    memberships.set(row.personaId, ids)
+  }
+
+  return memberships
+}
+
+/**
+ * Ensure all given affiliations exist and belong to the user
+ */
+export async function requireOwnedAffiliations(
+  userId: string,
+  affiliationIds: string[]
+) {
+  const uniqueIds = [...new Set(affiliationIds)]
+  if (uniqueIds.length === 0) return
+
+  const owned = await db
+    .select({ id: affiliations.id })
+    .from(affiliations)
+    .where(and(
+      inArray(affiliations.id, uniqueIds),
+      eq(affiliations.userId, userId)
+    ))
+
+  if (owned.length !== uniqueIds.length) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Affiliation not found'
+    })
+  }
+}
+
+/**
+ * Replace a persona's memberships with the given affiliations
+ * Existing memberships keep their original joined date
+ */
+export async function setPersonaAffiliations(
+  tx: Transaction,
+  personaId: string,
+  affiliationIds: string[]
+) {
+  const uniqueIds = [...new Set(affiliationIds)]
+
+  // Remove memberships that are no longer listed
+  await tx
+    .delete(personaAffiliations)
+    .where(and(
+      eq(personaAffiliations.personaId, personaId),
+      uniqueIds.length > 0
+        ? notInArray(personaAffiliations.affiliationId, uniqueIds)
+        : undefined
+    ))
+
+  if (uniqueIds.length === 0) return
+
+  // Add new memberships, leaving existing ones untouched
+  await tx
+    .insert(personaAffiliations)
+    .values(uniqueIds.map(affiliationId => ({ personaId, affiliationId })))
+    .onConflictDoNothing()
+}
@@ -0,0 +1,85 @@
+/**
+ * Assistant fallback utilities
+ *
+ * Helpers for reading and writing the assistant_fallbacks junction
+ */
+import { and, asc, eq, inArray } from 'drizzle-orm'
+import { db } from './db'
+import { assistantFallbacks } from '../database/schema/assistants'
+import { models } from '../database/schema/models'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+/**
+ * Get fallback model IDs for the given assistants in chain order,
+ * keyed by assistant ID
+ */
+export async function getFallbackModelIdsByAssistant(
+  assistantIds: string[]
+): Promise<Map<string, string[]>> {
+  const chains = new Map<string, string[]>()
+  if (assistantIds.length === 0) return chains
+
+  const rows = await db
+    .select()
+    .from(assistantFallbacks)
+    .where(inArray(assistantFallbacks.assistantId, assistantIds))
+    .orderBy(asc(assistantFallbacks.position))
+
+  for (const row of rows) {
+    const ids = chains.get(row.assistantId) || []
+    ids.push(row.modelId)
+    chains.set(row.assistantId, ids)
+  }
+
+  return chains
+}
+
+/**
+ * Ensure all given models exist and belong to the user
+ */
+export async function requireOwnedModels(
+  userId: string,
+  modelIds: string[]
+) {
+  const uniqueIds = [...new Set(modelIds)]
+  if (uniqueIds.length === 0) return
+
+  const owned = await db
+    .select({ id: models.id })
+    .from(models)
+    .where(and(
+      inArray(models.id, uniqueIds),
+      eq(models.userId, userId)
+    ))
+
+  if (owned.length !== uniqueIds.length) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Model not found'
+    })
+  }
+}
+
+/**
+ * Replace an assistant's fallback chain
+ * The assistant's own model is skipped, it is always tried first
+ */
+export async function setAssistantFallbacks(
+  tx: Transaction,
+  assistantId: string,
+  primaryModelId: string,
+  modelIds: string[]
+) {
+  const chain = [...new Set(modelIds)].filter(modelId => modelId !== primaryModelId)
+
+  await tx
+    .delete(assistantFallbacks)
+    .where(eq(assistantFallbacks.assistantId, assistantId))
+
+  if (chain.length === 0) return
+
+  await tx
+    .insert(assistantFallbacks)
+    .values(chain.map((modelId, position) => ({ assistantId, modelId, position })))
+}
@@ -0,0 +1,125 @@
+/**
+ * Persona avatars
+ *
+ * Uploads are cropped to a square around the most interesting part of
+ * the picture and stored as WebP in a few sizes, so lists never load
+ * more pixels than they show.
+ *
+ * Files live in the "avatars" storage mount, configured from the
+ * environment:
+ * - AVATAR_STORAGE: "fs" (default) or "s3"
+ * - AVATAR_DIR: directory for "fs", default .data/avatars
+ * - S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID and
+ *   S3_SECRET_ACCESS_KEY for "s3", any S3-compatible service such as
+ *   MinIO works (path-style URLs)
+ */
+import sharp from 'sharp'
+import fsDriver from 'unstorage/drivers/fs'
+import s3Driver from 'unstorage/drivers/s3'
+
+export const AVATAR_SIZES = [64, 128, 256] as const
+export type AvatarSize = typeof AVATAR_SIZES[number]
+
+export const MAX_AVATAR_BYTES = 5 * 1024 * 1024
+
+// Decoding huge images costs a lot of memory, refuse them up front
+const MAX_INPUT_PIXELS = 40_000_000
+const INPUT_FORMATS = ['jpeg', 'png', 'webp', 'gif', 'avif', 'heif']
+
+/**
+ * Storage driver for the avatars mount
+ */
+export function createAvatarDriver() {
+  const kind = process.env.AVATAR_STORAGE || 'fs'
+
+  if (kind === 's3') {
+    const required = ['S3_ENDPOINT', 'S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY']
+    const missing = required.filter(name => !process.env[name])
+    if (missing.length > 0) {
+      throw new Error(`AVATAR_STORAGE=s3 requires ${missing.join(', ')}`)
+    }
+
+    return s3Driver({
+      endpoint: process.env.S3_ENDPOINT!,
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET!,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+    })
+  }
+
+  if (kind !== 'fs') {
+    throw new Error(`Unknown AVATAR_STORAGE "${kind}", use "fs" or "s3"`)
+  }
+
+  return fsDriver({ base: process.env.AVATAR_DIR || '.data/avatars' })
+}
+
+function avatarKey(personaId: string, size: AvatarSize) {
+  return `personas:${personaId}:${size}.webp`
+}
+
+/**
+ * URL the client loads the avatar from
+ * The version changes with every upload so browsers can cache each one forever
+ */
+export function avatarUrl(personaId: string) {
+  return `/api/personas/${personaId}/avatar?v=${Date.now().toString(36)}`
+}
+
+/**
+ * Crop and resize an uploaded image into every avatar size
+ */
+export async function processAvatar(data: Buffer): Promise<Map<AvatarSize, Buffer>> {
+  const image = sharp(data, { limitInputPixels: MAX_INPUT_PIXELS })
+
+  let format: string | undefined
+  try {
+    format = (await image.metadata()).format
+  } catch {
+    // Not an image sharp can read
+  }
+
+  if (!format || !INPUT_FORMATS.includes(format)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Avatar must be a JPEG, PNG, WebP, GIF or AVIF image'
+    })
+  }
+
+  // Apply the EXIF orientation before cropping, phone photos rely on it
+  const oriented = image.rotate()
+
+  const sizes = await Promise.all(
+    AVATAR_SIZES.map(async size => [
+      size,
+      await oriented
+        .clone()
+        .resize(size, size, { fit: 'cover', position: 'attention' })
+        .webp({ quality: 85 })
+        .toBuffer(),
+    ] as const)
+  )
+
+  return new Map(sizes)
+}
+
+export async function saveAvatar(personaId: string, images: Map<AvatarSize, Buffer>) {
+  const storage = useStorage('avatars')
+  for (const [size, image] of images) {
+    await storage.setItemRaw(avatarKey(personaId, size), image)
+  }
+}
+
+export async function readAvatar(personaId: string, size: AvatarSize): Promise<Buffer | null> {
+  const data = await useStorage('avatars').getItemRaw<Buffer | ArrayBuffer>(avatarKey(personaId, size))
+  if (!data) return null
+  return Buffer.isBuffer(data) ? data : Buffer.from(data)
+}
+
+export async function removeAvatar(personaId: string) {
+  const storage = useStorage('avatars')
+  for (const size of AVATAR_SIZES) {
+    await storage.removeItem(avatarKey(personaId, size))
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Model capability probing
+ *
+ * Sends a model a few tiny requests to find out what it supports
+ * before a generation runs into it: system prompts, streaming, JSON
+ * mode, tool calling and whether it stops at max_tokens. The results are
+ * stored in the model's capabilities, which the generation code reads to
+ * shape its requests.
+ *
+ * A check that fails for reasons unrelated to the feature (network,
+ * API key, rate limits) or whose reply proves nothing keeps the stored
+ * value as it was.
+ */
+import { and, eq, inArray, isNull } from 'drizzle-orm'
+import { db } from './db'
+import { models } from '../database/schema/models'
+import { providers } from '../database/schema/providers'
+import type { ModelCapabilities } from '../database/schema/models'
+import { createLLMClient, describeLLMError, normalizeError } from './llm'
+import type { ChatTool, ChatUsage, ClientConfig, LLMClient } from './llm'
+import { getModelConnection } from './providers'
+import { recordUsage } from './usage'
+
+const PROBE_TIMEOUT = 30000
+
+// Output limit of the max_tokens check, far below what its prompt asks for
+const PROBE_MAX_TOKENS = 5
+
+export type CapabilityId = keyof Required<ModelCapabilities>
+export type ProbeStatus = 'supported' | 'unsupported' | 'unknown'
+
+export interface ProbeCheck {
+  id: CapabilityId
+  status: ProbeStatus
+  message: string
+}
+
+export interface ProbeResult {
+  capabilities: ModelCapabilities // Only what the probe could determine
+  checks: ProbeCheck[]
+  usage: ChatUsage
+}
+
+interface Outcome {
+  status: ProbeStatus
+  message: string
+  usage?: ChatUsage
+}
+
+const WEATHER_TOOL: ChatTool = {
+  name: 'get_weather',
+  description: 'Get the current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string', description: 'Name of the city' } },
+    required: ['city'],
+  },
+}
+
+const checks: Record<CapabilityId, (client: LLMClient, model: string) => Promise<Outcome>> = {
+  async systemPrompt(client, model) {
+    const result = await client.chat(
+      [
+        { role: 'system', content: 'Whatever the user says, reply with only the word PINEAPPLE.' },
+        { role: 'user', content: 'Say hello.' },
+      ],
+      { model, temperature: 0, maxTokens: 20, timeout: PROBE_TIMEOUT }
+    )
+
+    // Models may also ignore an accepted system prompt, only a rejected one proves a lack of support
+    const followed = /pineapple/i.test(result.content)
+    return {
+      status: followed ? 'supported' : 'unknown',
+      message: followed ? 'Followed the system prompt' : 'Accepted but did not follow the system prompt',
+      usage: result.usage,
+    }
+  },
+
+  async streaming(client, model) {
+    let chunks = 0
+    let usage: ChatUsage | undefined
+
+    const stream = client.stream(
+      [{ role: 'user', content: 'Count from 1 to 5.' }],
+      { model, maxTokens: 30, signal: AbortSignal.timeout(PROBE_TIMEOUT) }
+    )
+    for await (const chunk of stream) {
+      if (chunk.usage) usage = chunk.usage
+      if (chunk.content) chunks++
+    }
+
+    return {
+      status: chunks > 0 ? 'supported' : 'unsupported',
+      message: chunks > 0 ? `Streamed the reply in ${chunks} chunk(s)` : 'The stream carried no text',
+      usage,
+    }
+  },
+
+  async jsonMode(client, model) {
+    const result = await client.chat(
+      [{ role: 'user', content: 'Reply with a JSON object that has the key "ok" set to true.' }],
+      { model, jsonMode: true, temperature: 0, maxTokens: 50, timeout: PROBE_TIMEOUT }
+    )
+
+    let supported = false
+    try {
+      const parsed: unknown = JSON.parse(result.content.trim())
+      supported = parsed !== null && typeof parsed === 'object'
+    } catch {
+      // Prose or fenced code blocks are not JSON mode
+    }
+
+    return {
+      status: supported ? 'supported' : 'unsupported',
+      message: supported ? 'Replied with a JSON object' : 'The reply was not plain JSON',
+      usage: result.usage,
+    }
+  },
+
+  async toolCalling(client, model) {
+    const result = await client.chat(
+      [{ role: 'user', content: 'What is the weather in Paris right now? Use the get_weather tool.' }],
+      { model, tools: [WEATHER_TOOL], temperature: 0, maxTokens: 100, timeout: PROBE_TIMEOUT }
+    )
+
+    const supported = Boolean(result.toolCalls?.some(call => call.name === WEATHER_TOOL.name))
+    return {
+      status: supported ? 'supported' : 'unsupported',
+      message: supported ? 'Called the offered tool' : 'Answered without calling the tool',
+      usage: result.usage,
+    }
+  },
+
+  async maxTokens(client, model) {
+    const result = await client.chat(
+      [{ role: 'user', content: 'Count from 1 to 100, separated by spaces.' }],
+      { model, temperature: 0, maxTokens: PROBE_MAX_TOKENS, timeout: PROBE_TIMEOUT }
+    )
+
+    // Without reported usage, a reply of a few tokens is at most a few dozen characters
+    const stopped = result.usage
+      ? result.usage.outputTokens <= PROBE_MAX_TOKENS
+      : result.content.length <= PROBE_MAX_TOKENS * 8
+
+    return {
+      status: stopped ? 'supported' : 'unsupported',
+      message: stopped
+        ? `Stopped at ${PROBE_MAX_TOKENS} tokens`
+        : `Ignored the limit of ${PROBE_MAX_TOKENS} tokens and kept writing`,
+      usage: result.usage,
+    }
+  },
+}
+
+/**
+ * Run every check against a model, one after the other
+ */
+export async function probeCapabilities(
+  connection: ClientConfig,
+  modelId: string
+): Promise<ProbeResult> {
+  const client = createLLMClient(connection)
+  const result: ProbeResult = {
+    capabilities: {},
+    checks: [],
+    usage: { inputTokens: 0, outputTokens: 0 },
+  }
+
+  for (const [id, check] of Object.entries(checks) as [CapabilityId, typeof checks[CapabilityId]][]) {
+    try {
+      const outcome = await check(client, modelId)
+
+      if (outcome.status !== 'unknown') {
+        result.capabilities[id] = outcome.status === 'supported'
+      }
+      result.checks.push({ id, status: outcome.status, message: outcome.message })
+      result.usage.inputTokens += outcome.usage?.inputTokens ?? 0
+      result.usage.outputTokens += outcome.usage?.outputTokens ?? 0
+    } catch (error) {
+      const llmError = normalizeError(error, client.provider)
+
+      // The API rejected the request shape, so it lacks the feature
+      if (llmError.code === 'bad_request') {
+        result.capabilities[id] = false
+        result.checks.push({ id, status: 'unsupported', message: llmError.message })
+      } else {
+        result.checks.push({ id, status: 'unknown', message: describeLLMError(llmError) })
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Probe models of a user and store the results
+ * Returns the updated models with their checks, missing models are skipped
+ */
+export async function probeModels(userId: string, modelIds: string[]) {
+  if (modelIds.length === 0) return []
+
+  const rows = await db
+    .select({ model: models, provider: providers })
+    .from(models)
+    .innerJoin(providers, eq(models.providerId, providers.id))
+    .where(and(
+      inArray(models.id, modelIds),
+      eq(models.userId, userId)
+    ))
+
+  const results = []
+
+  // One model at a time, the checks already add up to several requests
+  for (const { model, provider } of rows) {
+    const probe = await probeCapabilities(getModelConnection(provider, model), model.modelId)
+
+    // A probe that decided nothing leaves the model to be probed again
+    const decided = probe.checks.some(check => check.status !== 'unknown')
+
+    const [updatedModel] = await db
+      .update(models)
+      .set({
+        capabilities: { ...model.capabilities, ...probe.capabilities },
+        probedAt: decided ? new Date() : model.probedAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(models.id, model.id))
+      .returning()
+
+    if (probe.usage.inputTokens > 0 || probe.usage.outputTokens > 0) {
+      await recordUsage({ userId, model, usage: probe.usage })
+    }
+
+    results.push({ model: updatedModel!, checks: probe.checks })
+  }
+
+  return results
+}
+
+/**
+ * Probe models in the background, e.g. right after they were created
+ */
+export function startCapabilityProbe(userId: string, modelIds: string[]) {
+  probeModels(userId, modelIds).catch((error) => {
+    console.error('Capability probe failed:', error)
+  })
+}
+
+/**
+ * Probe every model that was never probed, for all users
+ */
+export async function probeUnprobedModels() {
+  const rows = await db
+    .select({ id: models.id, userId: models.userId })
+    .from(models)
+    .where(isNull(models.probedAt))
+
+  const byUser = new Map<string, string[]>()
+  for (const row of rows) {
+    byUser.set(row.userId, [...byUser.get(row.userId) || [], row.id])
+  }
+
+  let probed = 0
+  for (const [userId, ids] of byUser) {
+    const results = await probeModels(userId, ids)
+    probed += results.length
+  }
+
+  return { probed }
+}
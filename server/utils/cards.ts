@@ -0,0 +1,261 @@
+/**
+ * Character Card V2 reading and writing
+ *
+ * A card is a JSON document, either as a file of its own or embedded
+ * in a PNG portrait: a tEXt chunk with the keyword "chara" holds the
+ * JSON as base64. V3 cards add a "ccv3" chunk with the same fields,
+ * and old V1 cards keep the fields at the top level.
+ */
+import { z } from 'zod'
+import type { personas } from '../database/schema/personas'
+import type { CharacterCard } from '../../shared/cards'
+
+type Persona = typeof personas.$inferSelect
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+// Card keywords in order of preference, V3 carries the newer data
+const CARD_KEYWORDS = ['ccv3', 'chara']
+
+const text = z.string().nullish().transform(value => value ?? '')
+
+const cardDataSchema = z.object({
+  name: z.string({ required_error: 'The card has no character name' }).trim().min(1, 'The card has no character name'),
+  description: text,
+  personality: text,
+  scenario: text,
+  first_mes: text,
+  mes_example: text,
+  system_prompt: text,
+  post_history_instructions: text,
+  creator_notes: text,
+  creator: text,
+  tags: z.array(z.string()).nullish().transform(value => value ?? []),
+})
+
+const cardSchema = z.object({
+  spec: z.enum(['chara_card_v2', 'chara_card_v3'], {
+    errorMap: () => ({ message: 'Only V1, V2 and V3 character cards are supported' })
+  }),
+  data: cardDataSchema,
+})
+
+// The V2 fields written on export
+export interface CharacterCardV2 {
+  spec: 'chara_card_v2'
+  spec_version: '2.0'
+  data: {
+    name: string
+    description: string
+    personality: string
+    scenario: string
+    first_mes: string
+    mes_example: string
+    creator_notes: string
+    system_prompt: string
+    post_history_instructions: string
+    alternate_greetings: string[]
+    tags: string[]
+    creator: string
+    character_version: string
+    extensions: Record<string, unknown>
+  }
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+interface PngChunk {
+  type: string
+  data: Buffer
+}
+
+function readPngChunks(png: Buffer): PngChunk[] {
+  const chunks: PngChunk[] = []
+  let offset = PNG_SIGNATURE.length
+
+  while (offset + 12 <= png.length) {
+    const length = png.readUInt32BE(offset)
+    const type = png.toString('latin1', offset + 4, offset + 8)
+    const end = offset + 12 + length
+    if (end > png.length) break
+
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) })
+    offset = end
+    if (type === 'IEND') break
+  }
+
+  return chunks
+}
+
+function writePngChunk({ type, data }: PngChunk): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+/**
+ * Keyword and text of a tEXt chunk
+ */
+function readTextChunk(data: Buffer) {
+  const separator = data.indexOf(0)
+  if (separator === -1) return null
+  return {
+    keyword: data.toString('latin1', 0, separator),
+    text: data.toString('latin1', separator + 1),
+  }
+}
+
+export function isPng(data: Buffer): boolean {
+  return data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)
+}
+
+/**
+ * Read a card from a JSON file or a PNG with an embedded card
+ */
+export function readCharacterCard(data: Buffer): CharacterCard {
+  let json: string | undefined
+
+  if (isPng(data)) {
+    const texts = readPngChunks(data)
+      .filter(chunk => chunk.type === 'tEXt')
+      .map(chunk => readTextChunk(chunk.data))
+
+    for (const keyword of CARD_KEYWORDS) {
+      const entry = texts.find(item => item?.keyword === keyword)
+      if (entry) {
+        json = Buffer.from(entry.text, 'base64').toString('utf8')
+        break
+      }
+    }
+
+    if (json === undefined) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'The image contains no character card'
+      })
+    }
+  } else {
+    json = data.toString('utf8')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'The card is not valid JSON'
+    })
+  }
+
+  // V1 cards have no spec and keep the fields at the top level
+  const isV1 = parsed !== null && typeof parsed === 'object' && !('spec' in parsed)
+
+  let spec: CharacterCard['spec']
+  let fields: z.infer<typeof cardDataSchema>
+  try {
+    if (isV1) {
+      spec = 'chara_card_v1'
+      fields = cardDataSchema.parse(parsed)
+    } else {
+      const card = cardSchema.parse(parsed)
+      spec = card.spec
+      fields = card.data
+    }
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: error instanceof z.ZodError
+        ? `Invalid character card: ${error.errors[0]?.message || 'unknown format'}`
+        : 'Invalid character card'
+    })
+  }
+
+  return {
+    spec,
+    name: fields.name,
+    description: fields.description,
+    personality: fields.personality,
+    scenario: fields.scenario,
+    firstMessage: fields.first_mes,
+    exampleMessages: fields.mes_example,
+    systemPrompt: fields.system_prompt,
+    postHistoryInstructions: fields.post_history_instructions,
+    creatorNotes: fields.creator_notes,
+    creator: fields.creator,
+    tags: fields.tags,
+  }
+}
+
+/**
+ * V2 card of a persona, the truths fill the fields they are imported from
+ */
+export function buildCharacterCard(persona: Persona): CharacterCardV2 {
+  return {
+    spec: 'chara_card_v2',
+    spec_version: '2.0',
+    data: {
+      name: persona.name,
+      description: persona.universalTruth || '',
+      personality: persona.internalTruth || '',
+      scenario: persona.externalTruth || '',
+      first_mes: '',
+      mes_example: '',
+      creator_notes: '',
+      system_prompt: '',
+      post_history_instructions: '',
+      alternate_greetings: [],
+      tags: [],
+      creator: '',
+      character_version: '',
+      extensions: {},
+    },
+  }
+}
+
+/**
+ * Embed a card in a PNG, replacing any card it already carries
+ */
+export function embedCharacterCard(png: Buffer, card: CharacterCardV2): Buffer {
+  const chunks = readPngChunks(png).filter((chunk) => {
+    if (chunk.type !== 'tEXt') return true
+    const keyword = readTextChunk(chunk.data)?.keyword
+    return !keyword || !CARD_KEYWORDS.includes(keyword)
+  })
+
+  const cardChunk: PngChunk = {
+    type: 'tEXt',
+    data: Buffer.concat([
+      Buffer.from('chara\0', 'latin1'),
+      Buffer.from(Buffer.from(JSON.stringify(card), 'utf8').toString('base64'), 'latin1'),
+    ]),
+  }
+
+  // Text chunks may go anywhere after the header, right before IEND is customary
+  const end = chunks.findIndex(chunk => chunk.type === 'IEND')
+  chunks.splice(end === -1 ? chunks.length : end, 0, cardChunk)
+
+  return Buffer.concat([PNG_SIGNATURE, ...chunks.map(writePngChunk)])
+}
@@ -0,0 +1,212 @@
+/**
+ * Asymmetric knowledge context builder
+ *
+ * Builds one system prompt per assistant in a production. Every
+ * assistant shares the world and scenario, knows its own persona's
+ * internal truth and the internal truths of affiliations it belongs
+ * to, but only sees the universal and external truths of everyone
+ * and everything else.
+ */
+import type { InferSelectModel } from 'drizzle-orm'
+import type { affiliations } from '../database/schema/affiliations'
+import type { personas } from '../database/schema/personas'
+import type { scenarios } from '../database/schema/scenarios'
+import type { worlds } from '../database/schema/worlds'
+import type { ChatMessage } from './llm'
+
+type ContextPersona = Pick<
+  InferSelectModel<typeof personas>,
+  'id' | 'name' | 'universalTruth' | 'internalTruth' | 'externalTruth'
+>
+
+type ContextAffiliation = Pick<
+  InferSelectModel<typeof affiliations>,
+  'id' | 'name' | 'universalTruth' | 'internalTruth' | 'externalTruth'
+>
+
+export interface ContextParticipant {
+  assistantId: string
+  persona: ContextPersona
+  affiliations: ContextAffiliation[]
+}
+
+export interface ContextInput {
+  world: Pick<InferSelectModel<typeof worlds>, 'name' | 'description'>
+  scenario?: Pick<InferSelectModel<typeof scenarios>, 'name' | 'description'> | null
+  participants: ContextParticipant[]
+}
+
+/**
+ * Format a labelled truth as an indented line, skipping empty values
+ */
+function truthLine(indent: string, label: string, value: string | null | undefined): string[] {
+  const text = value?.trim()
+  return text ? [`${indent}- ${label}: ${text}`] : []
+}
+
+export type PromptSectionId =
+  | 'world'
+  | 'scenario'
+  | 'persona'
+  | 'affiliations'
+  | 'participants'
+  | 'knownAffiliations'
+
+export interface PromptSection {
+  id: PromptSectionId
+  text: string
+}
+
+/**
+ * Build the parts of a participant's system prompt, in prompt order
+ * Sections without content are left out
+ */
+export function buildSystemPromptSections(
+  input: ContextInput,
+  self: ContextParticipant
+): PromptSection[] {
+  const { world, scenario, participants } = input
+  const others = participants.filter(p => p.assistantId !== self.assistantId)
+  const sections: PromptSection[] = []
+  const section = (id: PromptSectionId, lines: string[]) => {
+    sections.push({ id, text: lines.join('\n') })
+  }
+
+  // Shared setting
+  section('world', [`WORLD: ${world.name}`, world.description.trim()])
+  if (scenario) {
+    section('scenario', [`SCENARIO: ${scenario.name}`, scenario.description.trim()])
+  }
+
+  // Own persona, including personal secrets
+  section('persona', [
+    `YOU ARE: ${self.persona.name}`,
+    ...truthLine('', 'Universal', self.persona.universalTruth),
+    ...truthLine('', 'Internal', self.persona.internalTruth),
+  ])
+
+  // Own affiliations, including shared secrets
+  if (self.affiliations.length > 0) {
+    const lines = ['YOUR AFFILIATIONS:']
+    for (const affiliation of self.affiliations) {
+      lines.push(`- ${affiliation.name}:`)
+      lines.push(...truthLine('  ', 'Universal', affiliation.universalTruth))
+      lines.push(...truthLine('  ', 'Internal', affiliation.internalTruth))
+    }
+    section('affiliations', lines)
+  }
+
+  // Other participants, public facts and perception only
+  if (others.length > 0) {
+    const lines = ['OTHER PARTICIPANTS:']
+    for (const other of others) {
+      lines.push(`- ${other.persona.name}`)
+      lines.push(...truthLine('  ', 'Universal', other.persona.universalTruth))
+      lines.push(...truthLine('  ', 'External', other.persona.externalTruth))
+      if (other.affiliations.length > 0) {
+        lines.push(`  - Affiliations: ${other.affiliations.map(a => a.name).join(', ')}`)
+      }
+    }
+    section('participants', lines)
+  }
+
+  // Every affiliation mentioned by any participant, deduplicated; internal
+  // truths of own affiliations are already listed above
+  const known = new Map<string, ContextAffiliation>()
+  for (const participant of participants) {
+    for (const affiliation of participant.affiliations) {
+      known.set(affiliation.id, affiliation)
+    }
+  }
+
+  if (known.size > 0) {
+    const lines = ['KNOWN AFFILIATIONS:']
+    for (const affiliation of known.values()) {
+      lines.push(`- ${affiliation.name}:`)
+      lines.push(...truthLine('  ', 'Universal', affiliation.universalTruth))
+      lines.push(...truthLine('  ', 'External', affiliation.externalTruth))
+    }
+    section('knownAffiliations', lines)
+  }
+
+  return sections
+}
+
+/**
+ * Build the system prompt for a single participant
+ */
+export function buildSystemPrompt(
+  input: ContextInput,
+  self: ContextParticipant
+): string {
+  return buildSystemPromptSections(input, self)
+    .map(section => section.text)
+    .join('\n\n')
+    .trim()
+}
+
+/**
+ * Build system prompts for every participant, keyed by assistant ID
+ */
+export function buildSystemPrompts(input: ContextInput): Map<string, string> {
+  const prompts = new Map<string, string>()
+
+  for (const participant of input.participants) {
+    prompts.set(participant.assistantId, buildSystemPrompt(input, participant))
+  }
+
+  return prompts
+}
+
+/**
+ * Turn the conversation so far into chat messages for one participant
+ *
+ * The speaker's own turns become assistant messages. Everyone else's
+ * turns become user messages prefixed with the speaker's name, so the
+ * model can tell the other participants apart.
+ */
+export function buildTurnMessages(
+  systemPrompt: string,
+  self: ContextParticipant,
+  history: { assistantId: string | null; speaker: string; content: string }[]
+): ChatMessage[] {
+  const messages: ChatMessage[] = [{ role: 'system', content: systemPrompt }]
+
+  for (const turn of history) {
+    messages.push(turn.assistantId === self.assistantId
+      ? { role: 'assistant', content: turn.content }
+      : { role: 'user', content: `${turn.speaker}: ${turn.content}` })
+  }
+
+  // Providers expect the last message to come from the user
+  if (messages.length === 1) {
+    messages.push({
+      role: 'user',
+      content: `(The conversation begins. Speak first as ${self.persona.name}.)`,
+    })
+  } else if (messages[messages.length - 1]?.role === 'assistant') {
+    messages.push({
+      role: 'user',
+      content: `(Continue the conversation as ${self.persona.name}.)`,
+    })
+  }
+
+  return messages
+}
+
+/**
+ * Merge the system prompt into the first user message
+ * For models that do not accept a system message
+ */
+export function foldSystemPrompt(messages: ChatMessage[]): ChatMessage[] {
+  const system = messages.filter(message => message.role === 'system')
+  const rest = messages.filter(message => message.role !== 'system')
+  if (system.length === 0) return messages
+
+  const instructions = system.map(message => message.content).join('\n\n')
+  const [first, ...others] = rest
+
+  return first?.role === 'user'
+    ? [{ role: 'user', content: `${instructions}\n\n${first.content}` }, ...others]
+    : [{ role: 'user', content: instructions }, ...rest]
+}
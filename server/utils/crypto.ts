@@ -1,30 +1,168 @@
 import crypto from 'crypto'
 
-// Use environment variable or fallback to a default for development
-// In production, this MUST be set via environment variable
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'dev-key-32-chars-change-in-prod!'
-const IV_LENGTH = 16
-const ALGORITHM = 'aes-256-cbc'
+/**
+ * Authenticated encryption for stored secrets
+ *
+ * Ciphertexts are AES-256-GCM and carry a version and key id:
+ *   v2:<keyId>:<iv>:<tag>:<ciphertext>   (base64url parts)
+ *
+ * Keys come from the environment:
+ * - ENCRYPTION_KEY: secret for the current key (required in production)
+ * - ENCRYPTION_KEY_ID: id stamped on new ciphertexts (default "1")
+ * - ENCRYPTION_PREVIOUS_KEYS: retired keys still accepted for decryption,
+ *   as comma separated "id:secret" pairs
+ *
+ * Legacy AES-256-CBC values ("iv:ciphertext" in hex) are still readable
+ * so existing rows can be re-encrypted.
+ */
+
+const VERSION = 'v2'
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+const KEY_LENGTH = 32
+const KDF_INFO = 'lmix api keys'
+const DEV_KEY = 'dev-key-32-chars-change-in-prod!'
 const KEY_MASK = '••••••••'
 
-// Ensure key is 32 bytes
-const key = Buffer.from(ENCRYPTION_KEY.padEnd(32, '0').slice(0, 32))
+interface KeyRing {
+  currentId: string
+  keys: Map<string, Buffer>
+  legacyKeys: Buffer[]
+}
+
+let keyRing: KeyRing | null = null
 
 /**
- * Encrypt a string value
+ * Derive a 256-bit key from a secret of any length
+ */
+function deriveKey(secret: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', secret, '', KDF_INFO, KEY_LENGTH))
+}
+
+/**
+ * Key used by the original CBC implementation
+ */
+function legacyKey(secret: string): Buffer {
+  return Buffer.from(secret.padEnd(32, '0').slice(0, 32))
+}
+
+/**
+ * Build the key ring from the environment, once
+ */
+function getKeyRing(): KeyRing {
+  if (keyRing) return keyRing
+
+  assertEncryptionConfigured()
+
+  const secret = process.env.ENCRYPTION_KEY || DEV_KEY
+  const currentId = process.env.ENCRYPTION_KEY_ID?.trim() || '1'
+  const keys = new Map<string, Buffer>([[currentId, deriveKey(secret)]])
+  const legacyKeys = [legacyKey(secret)]
+
+  for (const entry of (process.env.ENCRYPTION_PREVIOUS_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':')
+    if (separator <= 0) continue
+
+    const id = entry.slice(0, separator).trim()
+    const previous = entry.slice(separator + 1).trim()
+    if (!previous) continue
+
+    if (!keys.has(id)) keys.set(id, deriveKey(previous))
+    legacyKeys.push(legacyKey(previous))
+  }
+
+  keyRing = { currentId, keys, legacyKeys }
+  return keyRing
+}
+
+/**
+ * Fail when no encryption key is configured in production
+ * Development falls back to a fixed key so the app runs out of the box
+ */
+export function assertEncryptionConfigured() {
+  if (process.env.ENCRYPTION_KEY) return
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('ENCRYPTION_KEY must be set in production')
+  }
+}
+
+/**
+ * Decrypt a v2 ciphertext, returning null if no key can open it
+ */
+function decryptVersioned(parts: string[]): string | null {
+  const [, keyId, iv, tag, encrypted] = parts
+  const key = getKeyRing().keys.get(keyId!)
+  if (!key) {
+    console.error(`Decryption failed: unknown key id "${keyId}"`)
+    return null
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv!, 'base64url'))
+  decipher.setAAD(Buffer.from(`${VERSION}:${keyId}`))
+  decipher.setAuthTag(Buffer.from(tag!, 'base64url'))
+
+  const decrypted = Buffer.concat([
+    decipher.update(Buffer.from(encrypted!, 'base64url')),
+    decipher.final(),
+  ])
+
+  return decrypted.toString('utf8')
+}
+
+/**
+ * Decrypt a legacy CBC ciphertext by trying every known secret
+ * CBC has no integrity check, so a wrong key may still "succeed";
+ * only results that are valid UTF-8 are accepted
+ */
+function decryptLegacy(parts: string[]): string | null {
+  const iv = Buffer.from(parts[0]!, 'hex')
+  const encrypted = Buffer.from(parts[1]!, 'hex')
+
+  for (const key of getKeyRing().legacyKeys) {
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-cbc', key, iv)
+      const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()])
+      return new TextDecoder('utf-8', { fatal: true }).decode(decrypted)
+    } catch {
+      // Try the next key
+    }
+  }
+
+  return null
+}
+
+/**
+ * Format of a stored value, null when it is no ciphertext at all
+ */
+function ciphertextFormat(parts: string[]): 'versioned' | 'legacy' | null {
+  if (parts[0] === VERSION && parts.length === 5) return 'versioned'
+  if (parts.length === 2 && /^[0-9a-f]{32}$/i.test(parts[0]!)) return 'legacy'
+  return null
+}
+
+/**
+ * Encrypt a string value with the current key
  */
 export function encrypt(text: string | null | undefined): string | null {
   if (!text) return null
-  
+
   try {
+    const { currentId, keys } = getKeyRing()
     const iv = crypto.randomBytes(IV_LENGTH)
-    const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
-    
-    let encrypted = cipher.update(text, 'utf8')
-    encrypted = Buffer.concat([encrypted, cipher.final()])
-    
-    // Return iv:encrypted format
-    return iv.toString('hex') + ':' + encrypted.toString('hex')
+    const cipher = crypto.createCipheriv(ALGORITHM, keys.get(currentId)!, iv)
+    cipher.setAAD(Buffer.from(`${VERSION}:${currentId}`))
+
+    const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()])
+    const tag = cipher.getAuthTag()
+
+    return [
+      VERSION,
+      currentId,
+      iv.toString('base64url'),
+      tag.toString('base64url'),
+      encrypted.toString('base64url'),
+    ].join(':')
   } catch (error) {
     console.error('Encryption failed:', error)
     throw new Error('Failed to encrypt data')
@@ -33,33 +171,57 @@ export function encrypt(text: string | null | undefined): string | null {
 
 /**
  * Decrypt an encrypted string
+ * Returns null for tampered, unreadable or unrecognized values
  */
 export function decrypt(text: string | null | undefined): string | null {
   if (!text) return null
-  
+
   try {
     const parts = text.split(':')
-    if (parts.length !== 2) {
-      // Not encrypted or invalid format - return as is for backward compatibility
-      return text
+    const format = ciphertextFormat(parts)
+
+    if (format === 'versioned') {
+      return decryptVersioned(parts)
+    }
+
+    if (format === 'legacy') {
+      return decryptLegacy(parts)
     }
-    
-    const iv = Buffer.from(parts[0]!, 'hex')
-    const encryptedText = Buffer.from(parts[1]!, 'hex')
-    
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv)
-    
-    let decrypted = decipher.update(encryptedText)
-    decrypted = Buffer.concat([decrypted, decipher.final()])
-    
-    return decrypted.toString('utf8')
+
+    console.error('Decryption failed: unrecognized ciphertext format')
+    return null
   } catch (error) {
     console.error('Decryption failed:', error)
-    // Return null instead of throwing to handle migration gracefully
     return null
   }
 }
 
+/**
+ * Check if a stored value is encrypted at all
+ * Keys saved before encryption was introduced are plain text
+ */
+export function isEncrypted(text: string | null | undefined): boolean {
+  return Boolean(text) && ciphertextFormat(text!.split(':')) !== null
+}
+
+/**
+ * Check if a stored value should be re-encrypted with the current key
+ */
+export function needsReencryption(text: string | null | undefined): boolean {
+  if (!text) return false
+  const parts = text.split(':')
+  return parts[0] !== VERSION || parts[1] !== getKeyRing().currentId
+}
+
+/**
+ * Re-encrypt a stored value with the current key
+ * Returns null if the value cannot be decrypted
+ */
+export function reencrypt(text: string | null | undefined): string | null {
+  const plaintext = decrypt(text)
+  return plaintext === null ? null : encrypt(plaintext)
+}
+
 /**
  * Check if a value is the masked placeholder
  */
@@ -80,4 +242,4 @@ export function getMaskedKey(): string {
 export function maskApiKey(apiKey: string | null | undefined): string | null {
   if (!apiKey) return null
   return KEY_MASK
-}
\ No newline at end of file
+}
@@ -0,0 +1,288 @@
+/**
+ * Connection diagnostics
+ *
+ * Runs a model connection test step by step so a failure can be
+ * pinned to the network, TLS, the API key, the model ID or the
+ * generation itself instead of a single error message
+ */
+import { createLLMClient, describeLLMError, normalizeError } from './llm'
+import { checkOutboundUrl, findBlockedError, outboundDispatcher } from './outbound'
+import type { ChatUsage, ClientConfig, LLMClient, LLMError } from './llm'
+
+const REACH_TIMEOUT = 10000
+const LIST_TIMEOUT = 15000
+const GENERATION_TIMEOUT = 60000
+const MAX_BODY_LENGTH = 4000
+
+// Node reports certificate and handshake problems with codes like these
+const TLS_ERROR_CODE = /CERT|SSL|TLS|SELF_SIGNED/i
+
+export type DiagnosticCheckId = 'reachable' | 'tls' | 'auth' | 'model' | 'generation'
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skip'
+
+export interface DiagnosticCheck {
+  id: DiagnosticCheckId
+  status: DiagnosticStatus
+  message: string
+}
+
+export interface DiagnosticReport {
+  ok: boolean // No check failed
+  checks: DiagnosticCheck[]
+  firstTokenMs: number | null
+  tokensPerSecond: number | null
+  response: string | null // What the model replied
+  usage: ChatUsage | null
+  error: {
+    code: string
+    status: number | null
+    message: string
+    body: string | null // Raw provider error body
+  } | null
+}
+
+type CheckResults = Record<DiagnosticCheckId, Omit<DiagnosticCheck, 'id'>>
+
+/**
+ * Read the raw body of a failed provider response
+ * Streamed requests keep it unread, so it is consumed here
+ */
+async function readErrorBody(error: LLMError): Promise<string | null> {
+  const data = (error.cause as { data?: unknown } | undefined)?.data
+  if (data === undefined || data === null) return null
+
+  let body: string
+  if (data instanceof ReadableStream) {
+    body = await new Response(data).text().catch(() => '')
+  } else {
+    body = typeof data === 'string' ? data : JSON.stringify(data, null, 2)
+  }
+
+  return body ? body.slice(0, MAX_BODY_LENGTH) : null
+}
+
+/**
+ * Check that the endpoint answers at all and that its certificate is valid
+ */
+async function checkEndpoint(apiEndpoint: string): Promise<Pick<CheckResults, 'reachable' | 'tls'>> {
+  const secure = new URL(apiEndpoint).protocol === 'https:'
+
+  const blocked = await checkOutboundUrl(apiEndpoint)
+  if (blocked) {
+    return {
+      reachable: { status: 'fail', message: blocked },
+      tls: { status: 'skip', message: 'Not checked, the endpoint is blocked' },
+    }
+  }
+
+  try {
+    const response = await fetch(apiEndpoint, {
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REACH_TIMEOUT),
+      dispatcher: outboundDispatcher,
+    } as RequestInit)
+    await response.body?.cancel()
+
+    return {
+      reachable: { status: 'pass', message: `Responded with HTTP ${response.status}` },
+      tls: secure
+        ? { status: 'pass', message: 'Certificate is valid' }
+        : { status: 'skip', message: 'Plain HTTP, the connection is not encrypted' },
+    }
+  } catch (error) {
+    const blockedError = findBlockedError(error)
+    if (blockedError) {
+      return {
+        reachable: { status: 'fail', message: blockedError.message },
+        tls: { status: 'skip', message: 'Not checked, the endpoint is blocked' },
+      }
+    }
+
+    const err = error as { name?: string; message?: string; cause?: { code?: string; message?: string } }
+    const code = err.cause?.code || ''
+
+    // The server took the connection, the handshake failed
+    if (secure && TLS_ERROR_CODE.test(code)) {
+      return {
+        reachable: { status: 'pass', message: 'Server accepted the connection' },
+        tls: { status: 'fail', message: `${code}: ${err.cause?.message || 'TLS handshake failed'}` },
+      }
+    }
+
+    return {
+      reachable: {
+        status: 'fail',
+        message: err.name === 'TimeoutError'
+          ? `No response within ${REACH_TIMEOUT / 1000} seconds`
+          : [code, err.cause?.message || err.message].filter(Boolean).join(': ') || 'Could not connect',
+      },
+      tls: { status: 'skip', message: 'Not checked, the endpoint is unreachable' },
+    }
+  }
+}
+
+/**
+ * Use the model list to check the API key and the model ID
+ */
+async function checkModelList(
+  client: LLMClient,
+  modelId: string
+): Promise<Pick<CheckResults, 'auth' | 'model'>> {
+  try {
+    const models = await client.listModels({ timeout: LIST_TIMEOUT })
+
+    return {
+      auth: { status: 'pass', message: 'API key accepted' },
+      model: models.some(model => model.id === modelId)
+        ? { status: 'pass', message: 'Listed by the provider' }
+        : { status: 'warn', message: 'Not in the provider\'s model list, it may still be served' },
+    }
+  } catch (error) {
+    const llmError = normalizeError(error, client.provider)
+
+    if (llmError.code === 'auth') {
+      return {
+        auth: { status: 'fail', message: describeLLMError(llmError) },
+        model: { status: 'skip', message: 'Not checked, authentication failed' },
+      }
+    }
+
+    // Generation below still checks both
+    const reason = llmError.code === 'not_found'
+      ? 'The endpoint has no model list'
+      : `Could not list models: ${llmError.message}`
+    return {
+      auth: { status: 'skip', message: reason },
+      model: { status: 'skip', message: reason },
+    }
+  }
+}
+
+/**
+ * Run every check against a model, never throwing for provider failures
+ */
+export async function diagnoseModel(
+  connection: ClientConfig,
+  modelId: string
+): Promise<DiagnosticReport> {
+  const report: DiagnosticReport = {
+    ok: false,
+    checks: [],
+    firstTokenMs: null,
+    tokensPerSecond: null,
+    response: null,
+    usage: null,
+    error: null,
+  }
+
+  const endpoint = await checkEndpoint(connection.apiEndpoint)
+  if (endpoint.reachable.status === 'fail' || endpoint.tls.status === 'fail') {
+    const skipped = { status: 'skip' as const, message: 'Not checked, the connection failed' }
+    report.checks = toChecks({ ...endpoint, auth: skipped, model: skipped, generation: skipped })
+    return report
+  }
+
+  const client = createLLMClient(connection)
+  const results: CheckResults = {
+    ...endpoint,
+    ...await checkModelList(client, modelId),
+    generation: { status: 'skip', message: 'Not checked, authentication failed' },
+  }
+
+  if (results.auth.status !== 'fail') {
+    const startedAt = performance.now()
+    let firstTokenAt: number | null = null
+    let chunks = 0
+    let content = ''
+
+    try {
+      const stream = client.stream(
+        [
+          {
+            role: 'system',
+            content: 'You are a helpful assistant. Please respond with a brief greeting.'
+          },
+          {
+            role: 'user',
+            content: 'Hello! Please respond with a simple greeting to confirm you are working.'
+          }
+        ],
+        {
+          model: modelId,
+          temperature: 0.7,
+          maxTokens: 50,
+          signal: AbortSignal.timeout(GENERATION_TIMEOUT),
+        }
+      )
+
+      for await (const chunk of stream) {
+        if (chunk.usage) report.usage = chunk.usage
+        if (!chunk.content) continue
+        firstTokenAt ??= performance.now()
+        chunks++
+        content += chunk.content
+      }
+
+      const finishedAt = performance.now()
+      report.response = content.trim()
+
+      if (firstTokenAt !== null) {
+        report.firstTokenMs = Math.round(firstTokenAt - startedAt)
+
+        // Chunks stand in for tokens when the provider reports no usage
+        const tokens = report.usage?.outputTokens || chunks
+        const seconds = (finishedAt - firstTokenAt) / 1000
+        if (seconds > 0 && tokens > 1) {
+          report.tokensPerSecond = Math.round((tokens / seconds) * 10) / 10
+        }
+      }
+
+      results.generation = content
+        ? { status: 'pass', message: `Replied in ${Math.round(finishedAt - startedAt)} ms` }
+        : { status: 'warn', message: 'The model replied without any text' }
+      if (results.model.status !== 'pass') {
+        results.model = { status: 'pass', message: 'Accepted for generation' }
+      }
+      if (results.auth.status === 'skip') {
+        results.auth = { status: 'pass', message: 'API key accepted' }
+      }
+    } catch (error) {
+      const llmError = normalizeError(error, client.provider)
+
+      report.error = {
+        code: llmError.code,
+        status: llmError.status ?? null,
+        message: llmError.message,
+        body: await readErrorBody(llmError),
+      }
+
+      if (llmError.code === 'invalid_response') {
+        // Some local servers answer oddly while a model is loading
+        results.generation = {
+          status: 'warn',
+          message: 'The server answered in an unexpected format, a local model may still be loading',
+        }
+      } else {
+        results.generation = { status: 'fail', message: describeLLMError(llmError) }
+      }
+
+      if (llmError.code === 'auth') {
+        results.auth = { status: 'fail', message: describeLLMError(llmError) }
+      } else if (llmError.code === 'not_found' && results.model.status !== 'pass') {
+        results.model = { status: 'fail', message: 'The endpoint does not know this model' }
+      }
+    }
+  }
+
+  report.checks = toChecks(results)
+  report.ok = report.checks.every(check => check.status !== 'fail')
+  return report
+}
+
+/**
+ * Order the results the way they are shown
+ */
+function toChecks(results: CheckResults): DiagnosticCheck[] {
+  const order: DiagnosticCheckId[] = ['reachable', 'tls', 'auth', 'model', 'generation']
+  return order.map(id => ({ id, ...results[id] }))
+}
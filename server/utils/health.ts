@@ -0,0 +1,158 @@
+/**
+ * Model health utilities
+ *
+ * Probes models with a tiny request, records the outcome and
+ * summarizes the recorded history into a status
+ */
+import { and, asc, eq, gte, inArray, lt } from 'drizzle-orm'
+import { db } from './db'
+import { models } from '../database/schema/models'
+import { providers } from '../database/schema/providers'
+import { modelHealthChecks } from '../database/schema/health'
+import { createLLMClient, LLMError } from './llm'
+import type { ChatUsage, ClientConfig, LLMErrorCode } from './llm'
+import { getModelConnection } from './providers'
+import { recordUsage } from './usage'
+
+// Probes run a few at a time so one slow provider cannot stall the rest
+const PROBE_CONCURRENCY = 4
+const PROBE_TIMEOUT = 20000
+const HISTORY_DAYS = 7
+
+// A model is degraded when any of its most recent checks failed
+const RECENT_CHECKS = 5
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down' | 'unknown'
+
+export interface HealthCheck {
+  ok: boolean
+  latencyMs: number
+  errorCode: LLMErrorCode | null
+  checkedAt: Date
+}
+
+export interface ModelHealth {
+  modelId: string
+  status: HealthStatus
+  checks: HealthCheck[] // Oldest first
+}
+
+export type ProbeResult = Omit<HealthCheck, 'checkedAt'> & {
+  usage?: ChatUsage // Tokens the probe was billed for, when the provider reports them
+}
+
+/**
+ * Send a model a minimal request and time the answer
+ */
+export async function probeModel(
+  connection: ClientConfig,
+  modelId: string
+): Promise<ProbeResult> {
+  const startedAt = Date.now()
+
+  try {
+    const client = createLLMClient(connection)
+    const result = await client.chat(
+      [{ role: 'user', content: 'ping' }],
+      { model: modelId, maxTokens: 1, timeout: PROBE_TIMEOUT }
+    )
+    return { ok: true, latencyMs: Date.now() - startedAt, errorCode: null, usage: result.usage }
+  } catch (error) {
+    // The server answered, just not in the expected format
+    if (error instanceof LLMError && error.code === 'invalid_response') {
+      return { ok: true, latencyMs: Date.now() - startedAt, errorCode: null }
+    }
+
+    return {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      errorCode: error instanceof LLMError ? error.code : 'network',
+    }
+  }
+}
+
+/**
+ * Probe every configured model and record the results and their usage
+ * Also drops history older than the retention window
+ */
+export async function runHealthChecks() {
+  const rows = await db
+    .select({ model: models, provider: providers })
+    .from(models)
+    .innerJoin(providers, eq(models.providerId, providers.id))
+
+  let healthy = 0
+
+  for (let i = 0; i < rows.length; i += PROBE_CONCURRENCY) {
+    const batch = rows.slice(i, i + PROBE_CONCURRENCY)
+    const results = await Promise.all(batch.map(({ model, provider }) =>
+      probeModel(getModelConnection(provider, model), model.modelId)
+    ))
+
+    await db
+      .insert(modelHealthChecks)
+      .values(results.map(({ ok, latencyMs, errorCode }, index) => ({
+        modelId: batch[index]!.model.id,
+        ok,
+        latencyMs,
+        errorCode,
+      })))
+
+    // Probes are paid calls too, they count towards the owner's usage
+    await Promise.all(results.map(({ usage }, index) => {
+      const { model } = batch[index]!
+      return usage && (usage.inputTokens > 0 || usage.outputTokens > 0)
+        ? recordUsage({ userId: model.userId, model, usage })
+        : undefined
+    }))
+
+    healthy += results.filter(result => result.ok).length
+  }
+
+  const cutoff = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000)
+  await db
+    .delete(modelHealthChecks)
+    .where(lt(modelHealthChecks.checkedAt, cutoff))
+
+  return { checked: rows.length, healthy }
+}
+
+/**
+ * Derive a status from checks ordered oldest first
+ */
+export function summarizeHealth(checks: HealthCheck[]): HealthStatus {
+  const latest = checks[checks.length - 1]
+  if (!latest) return 'unknown'
+  if (!latest.ok) return 'down'
+
+  return checks.slice(-RECENT_CHECKS).every(check => check.ok)
+    ? 'healthy'
+    : 'degraded'
+}
+
+/**
+ * Load the history of the given models since a point in time
+ */
+export async function getModelHealth(
+  modelIds: string[],
+  since: Date
+): Promise<ModelHealth[]> {
+  if (modelIds.length === 0) return []
+
+  const rows = await db
+    .select()
+    .from(modelHealthChecks)
+    .where(and(
+      inArray(modelHealthChecks.modelId, modelIds),
+      gte(modelHealthChecks.checkedAt, since)
+    ))
+    .orderBy(asc(modelHealthChecks.checkedAt))
+
+  return modelIds.map((modelId) => {
+    const checks = rows
+      .filter(row => row.modelId === modelId)
+      .map(({ ok, latencyMs, errorCode, checkedAt }) => ({ ok, latencyMs, errorCode, checkedAt }))
+
+    return { modelId, status: summarizeHealth(checks), checks }
+  })
+}
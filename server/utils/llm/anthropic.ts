@@ -0,0 +1,190 @@
+/**
+ * Anthropic Messages API adapter
+ *
+ * System messages are lifted into the top-level `system` field,
+ * and `max_tokens` is required by the API.
+ */
+import { LLMError, normalizeError } from './errors'
+import { compact, getJson, joinUrl, postJson, postStream } from './http'
+import { parseEventStream } from './sse'
+import { extractModelMetadata } from '../../../shared/discovery'
+import type { ChatMessage, ChatOptions, ClientConfig, LLMClient } from './types'
+
+const ANTHROPIC_VERSION = '2023-06-01'
+const DEFAULT_MAX_TOKENS = 1024
+
+interface AnthropicResponse {
+  model?: string
+  content?: Array<{ type: string; text?: string; name?: string; input?: Record<string, unknown> }>
+  stop_reason?: string | null
+  usage?: { input_tokens?: number; output_tokens?: number }
+}
+
+interface AnthropicModelList {
+  data?: Array<Record<string, unknown> & { id: string; display_name?: string }>
+  has_more?: boolean
+  last_id?: string | null
+}
+
+// Only the stream events we read are typed here
+interface AnthropicStreamEvent {
+  type: string
+  message?: { usage?: { input_tokens?: number } }
+  delta?: { type?: string; text?: string; stop_reason?: string | null }
+  usage?: { output_tokens?: number }
+  error?: { type?: string; message?: string }
+}
+
+function buildBody(messages: ChatMessage[], options: ChatOptions) {
+  const system = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n')
+
+  return compact({
+    model: options.model,
+    system: system || undefined,
+    messages: messages.filter(message => message.role !== 'system'),
+    max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: options.temperature,
+    top_p: options.topP,
+    stop_sequences: options.stop,
+    // There is no JSON switch, the prompt has to ask for it
+    tools: options.tools?.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    })),
+  })
+}
+
+export function createAnthropicClient(config: ClientConfig): LLMClient {
+  const url = joinUrl(config.apiEndpoint, 'messages')
+  const headers: Record<string, string> = {
+    'anthropic-version': ANTHROPIC_VERSION,
+  }
+  if (config.apiKey) {
+    headers['x-api-key'] = config.apiKey
+  }
+  // Custom provider headers take precedence
+  Object.assign(headers, config.headers)
+
+  return {
+    provider: 'anthropic',
+
+    async chat(messages, options) {
+      const data = await postJson<AnthropicResponse>(
+        'anthropic',
+        url,
+        buildBody(messages, options),
+        headers,
+        options
+      )
+
+      if (!Array.isArray(data?.content)) {
+        throw new LLMError('invalid_response', 'Response contained no content', {
+          provider: 'anthropic',
+        })
+      }
+
+      return {
+        content: data.content
+          .filter(block => block.type === 'text')
+          .map(block => block.text || '')
+          .join(''),
+        model: data.model || options.model,
+        finishReason: data.stop_reason ?? null,
+        toolCalls: data.content
+          .filter(block => block.type === 'tool_use')
+          .map(block => ({ name: block.name || '', arguments: block.input || {} })),
+        usage: data.usage
+          ? {
+              inputTokens: data.usage.input_tokens ?? 0,
+              outputTokens: data.usage.output_tokens ?? 0,
+            }
+          : undefined,
+      }
+    },
+
+    async *stream(messages, options) {
+      const body = await postStream(
+        'anthropic',
+        url,
+        { ...buildBody(messages, options), stream: true },
+        headers,
+        options
+      )
+
+      let inputTokens = 0
+
+      try {
+        for await (const { data } of parseEventStream(body)) {
+          const event = JSON.parse(data) as AnthropicStreamEvent
+
+          switch (event.type) {
+            case 'message_start':
+              inputTokens = event.message?.usage?.input_tokens ?? 0
+              break
+            case 'content_block_delta':
+              if (event.delta?.type === 'text_delta') {
+                yield { content: event.delta.text || '' }
+              }
+              break
+            case 'message_delta':
+              yield {
+                content: '',
+                finishReason: event.delta?.stop_reason ?? null,
+                usage: {
+                  inputTokens,
+                  outputTokens: event.usage?.output_tokens ?? 0,
+                },
+              }
+              break
+            case 'error':
+              // Errors can arrive mid-stream, e.g. when the API is overloaded
+              throw new LLMError(
+                event.error?.type === 'overloaded_error' ? 'server' : 'bad_request',
+                event.error?.message || 'Stream returned an error',
+                { provider: 'anthropic' }
+              )
+          }
+        }
+      } catch (error) {
+        throw normalizeError(error, 'anthropic')
+      }
+    },
+
+    async listModels(options = {}) {
+      const entries: NonNullable<AnthropicModelList['data']> = []
+      let afterId: string | null | undefined
+
+      // The list is paginated, follow it to the end
+      do {
+        const query = new URLSearchParams({ limit: '1000' })
+        if (afterId) query.set('after_id', afterId)
+
+        const page = await getJson<AnthropicModelList>(
+          'anthropic',
+          `${joinUrl(config.apiEndpoint, 'models')}?${query}`,
+          headers,
+          options
+        )
+
+        if (!Array.isArray(page?.data)) {
+          throw new LLMError('invalid_response', 'Response contained no model list', {
+            provider: 'anthropic',
+          })
+        }
+
+        entries.push(...page.data)
+        afterId = page.has_more ? page.last_id : null
+      } while (afterId)
+
+      return entries.map(entry => ({
+        id: entry.id,
+        name: entry.display_name || entry.id,
+        ...extractModelMetadata(entry),
+      }))
+    },
+  }
+}
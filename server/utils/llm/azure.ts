@@ -0,0 +1,88 @@
+/**
+ * Azure OpenAI adapter
+ *
+ * Azure serves the Chat Completions format per deployment: the model ID
+ * is the deployment name, the API version goes in the query string and
+ * the key in an `api-key` header. The endpoint is the resource URL,
+ * e.g. https://my-resource.openai.azure.com, optionally with
+ * ?api-version=... to pin a version.
+ */
+import { LLMError } from './errors'
+import type { LLMErrorCode } from './errors'
+import { getJson } from './http'
+import { createCompletionsClient } from './openai'
+import type { ClientConfig, LLMClient } from './types'
+
+// Latest GA version, supports usage in streams
+const DEFAULT_API_VERSION = '2024-10-21'
+
+// Last data plane version that lists deployments, later versions dropped
+// the operation and resources created since may reject it
+const DEPLOYMENTS_API_VERSION = '2023-03-15-preview'
+
+// Failures meaning the resource does not offer the deployment list
+const UNLISTABLE_CODES: LLMErrorCode[] = ['not_found', 'bad_request']
+
+interface AzureDeploymentList {
+  data?: Array<{ id: string; model?: string; status?: string }>
+}
+
+/**
+ * Split an endpoint into the resource URL and the pinned API version
+ * Trailing /openai paths are dropped, they are added per request
+ */
+export function parseAzureEndpoint(apiEndpoint: string): { baseUrl: string; apiVersion: string } {
+  const url = new URL(apiEndpoint)
+  const apiVersion = url.searchParams.get('api-version') || DEFAULT_API_VERSION
+  const path = url.pathname.replace(/\/+$/, '').replace(/\/openai$/, '')
+
+  return { baseUrl: `${url.origin}${path}`, apiVersion }
+}
+
+export function createAzureClient(config: ClientConfig): LLMClient {
+  const { baseUrl, apiVersion } = parseAzureEndpoint(config.apiEndpoint)
+  const headers: Record<string, string> = {}
+  if (config.apiKey) {
+    headers['api-key'] = config.apiKey
+  }
+  // Custom provider headers take precedence
+  Object.assign(headers, config.headers)
+
+  return createCompletionsClient({
+    provider: 'azure',
+    chatUrl: deployment =>
+      `${baseUrl}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`,
+    headers,
+
+    // An empty list when deployments cannot be listed, their names are
+    // then entered by hand
+    async listModels(options = {}) {
+      let data: AzureDeploymentList
+      try {
+        data = await getJson<AzureDeploymentList>(
+          'azure',
+          `${baseUrl}/openai/deployments?api-version=${DEPLOYMENTS_API_VERSION}`,
+          headers,
+          options
+        )
+      } catch (error) {
+        if (error instanceof LLMError && UNLISTABLE_CODES.includes(error.code)) return []
+        throw error
+      }
+
+      if (!Array.isArray(data?.data)) {
+        throw new LLMError('invalid_response', 'Response contained no deployment list', {
+          provider: 'azure',
+        })
+      }
+
+      // Only deployments that finished provisioning answer requests
+      return data.data
+        .filter(entry => !entry.status || entry.status === 'succeeded')
+        .map(entry => ({
+          id: entry.id,
+          name: entry.model && entry.model !== entry.id ? `${entry.id} (${entry.model})` : entry.id,
+        }))
+    },
+  })
+}
@@ -0,0 +1,162 @@
+/**
+ * Normalized LLM client errors
+ *
+ * Every adapter throws LLMError so callers can react to failures
+ * without knowing which provider produced them.
+ */
+import type { ProviderKind } from './types'
+
+export type LLMErrorCode =
+  | 'auth' // Missing or invalid API key
+  | 'not_found' // Unknown endpoint or model
+  | 'rate_limit' // Too many requests
+  | 'bad_request' // Provider rejected the payload
+  | 'server' // Provider-side failure
+  | 'timeout' // No response in time
+  | 'aborted' // Cancelled by the caller
+  | 'network' // Endpoint unreachable
+  | 'blocked' // Endpoint refused by the outbound URL policy
+  | 'invalid_response' // Response did not match the expected format
+
+export class LLMError extends Error {
+  readonly code: LLMErrorCode
+  readonly provider: ProviderKind
+  readonly status?: number
+  readonly retryAfter?: number // Seconds
+
+  constructor(
+    code: LLMErrorCode,
+    message: string,
+    options: { provider: ProviderKind; status?: number; retryAfter?: number; cause?: unknown }
+  ) {
+    super(message, { cause: options.cause })
+    this.name = 'LLMError'
+    this.code = code
+    this.provider = options.provider
+    this.status = options.status
+    this.retryAfter = options.retryAfter
+  }
+}
+
+// Failures another model may not share
+const FALLBACK_CODES: LLMErrorCode[] = ['timeout', 'server', 'rate_limit', 'network', 'blocked']
+
+/**
+ * Check if a failure is worth retrying on a different model
+ * Timeouts, server errors, rate limits and unreachable or blocked
+ * endpoints are provider trouble, anything else would likely fail
+ * elsewhere too
+ */
+export function isFallbackError(error: LLMError): boolean {
+  return FALLBACK_CODES.includes(error.code)
+}
+
+/**
+ * Map an HTTP status to an error code
+ */
+function codeFromStatus(status: number): LLMErrorCode {
+  if (status === 401 || status === 403) return 'auth'
+  if (status === 404) return 'not_found'
+  if (status === 408) return 'timeout'
+  if (status === 429) return 'rate_limit'
+  if (status >= 500) return 'server'
+  return 'bad_request'
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+/**
+ * Pull a human readable message out of a provider error body
+ */
+function messageFromBody(data: unknown): string | undefined {
+  if (!data || typeof data !== 'object') {
+    return typeof data === 'string' && data ? data : undefined
+  }
+
+  // OpenAI and Anthropic: { error: { message } }, Ollama: { error: "..." }
+  const error = (data as { error?: unknown }).error
+  if (typeof error === 'string') return error
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message)
+  }
+  if ('message' in data) return String((data as { message: unknown }).message)
+  return undefined
+}
+
+/**
+ * Convert anything thrown while calling a provider into an LLMError
+ */
+export function normalizeError(error: unknown, provider: ProviderKind): LLMError {
+  if (error instanceof LLMError) return error
+
+  // Malformed JSON in a response or stream
+  if (error instanceof SyntaxError) {
+    return new LLMError('invalid_response', error.message, { provider, cause: error })
+  }
+
+  const err = error as {
+    name?: string
+    message?: string
+    status?: number
+    statusCode?: number
+    data?: unknown
+    cause?: { name?: string }
+    response?: { headers?: Headers }
+  }
+
+  const status = err?.status ?? err?.statusCode
+  if (status) {
+    return new LLMError(
+      codeFromStatus(status),
+      messageFromBody(err.data) || err.message || `Request failed with status ${status}`,
+      {
+        provider,
+        status,
+        retryAfter: parseRetryAfter(err.response?.headers?.get('retry-after')),
+        cause: error,
+      }
+    )
+  }
+
+  const names = [err?.name, err?.cause?.name]
+  if (names.includes('TimeoutError')) {
+    return new LLMError('timeout', 'Request timed out', { provider, cause: error })
+  }
+  if (names.includes('AbortError')) {
+    return new LLMError('aborted', 'Request was cancelled', { provider, cause: error })
+  }
+
+  return new LLMError(
+    'network',
+    err?.message || 'Could not reach the provider',
+    { provider, cause: error }
+  )
+}
+
+/**
+ * User-facing description of an LLM error
+ */
+export function describeLLMError(error: LLMError): string {
+  switch (error.code) {
+    case 'auth':
+      return 'Invalid API key'
+    case 'not_found':
+      return 'Invalid API endpoint or model ID'
+    case 'timeout':
+      return 'Connection timeout - please check the endpoint'
+    default:
+      return error.message
+  }
+}
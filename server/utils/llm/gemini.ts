@@ -0,0 +1,219 @@
+/**
+ * Google Gemini generateContent adapter
+ *
+ * System messages go in `systemInstruction`, the assistant role is
+ * called "model" and sampling settings live in `generationConfig`.
+ * The endpoint is the API root including the version, e.g.
+ * https://generativelanguage.googleapis.com/v1beta
+ */
+import { LLMError, normalizeError } from './errors'
+import { compact, getJson, joinUrl, postJson, postStream } from './http'
+import { parseEventStream } from './sse'
+import { extractModelMetadata } from '../../../shared/discovery'
+import type { ChatMessage, ChatOptions, ClientConfig, LLMClient } from './types'
+
+interface GeminiUsage {
+  promptTokenCount?: number
+  candidatesTokenCount?: number
+  thoughtsTokenCount?: number
+}
+
+// Streamed chunks have the same shape as full responses
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string
+        thought?: boolean
+        functionCall?: { name?: string; args?: Record<string, unknown> }
+      }>
+    }
+    finishReason?: string
+  }>
+  promptFeedback?: { blockReason?: string }
+  usageMetadata?: GeminiUsage
+  modelVersion?: string
+}
+
+interface GeminiModelList {
+  models?: Array<Record<string, unknown> & {
+    name: string
+    displayName?: string
+    supportedGenerationMethods?: string[]
+  }>
+  nextPageToken?: string
+}
+
+function toUsage(usage: GeminiUsage) {
+  return {
+    inputTokens: usage.promptTokenCount ?? 0,
+    // Thinking is billed as output
+    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  }
+}
+
+/**
+ * Model IDs are sent as a resource path, "models/" is implied when missing
+ */
+function modelPath(model: string): string {
+  return model.includes('/') ? model : `models/${model}`
+}
+
+function buildBody(messages: ChatMessage[], options: ChatOptions) {
+  const system = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n')
+
+  return compact({
+    contents: messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      })),
+    systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+    generationConfig: compact({
+      temperature: options.temperature,
+      topP: options.topP,
+      maxOutputTokens: options.maxTokens,
+      stopSequences: options.stop,
+      presencePenalty: options.presencePenalty,
+      frequencyPenalty: options.frequencyPenalty,
+      responseMimeType: options.jsonMode ? 'application/json' : undefined,
+    }),
+    tools: options.tools
+      ? [{
+          functionDeclarations: options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          })),
+        }]
+      : undefined,
+  })
+}
+
+/**
+ * Text of the first candidate, leaving out thought summaries
+ * A prompt rejected by the safety filters has no candidates at all
+ */
+function readText(data: GeminiResponse): string {
+  const blockReason = data.promptFeedback?.blockReason
+  if (blockReason) {
+    throw new LLMError('bad_request', `Prompt was blocked (${blockReason})`, {
+      provider: 'gemini',
+    })
+  }
+
+  return (data.candidates?.[0]?.content?.parts || [])
+    .filter(part => !part.thought)
+    .map(part => part.text || '')
+    .join('')
+}
+
+export function createGeminiClient(config: ClientConfig): LLMClient {
+  const headers: Record<string, string> = {}
+  if (config.apiKey) {
+    headers['x-goog-api-key'] = config.apiKey
+  }
+  // Custom provider headers take precedence
+  Object.assign(headers, config.headers)
+
+  return {
+    provider: 'gemini',
+
+    async chat(messages, options) {
+      const data = await postJson<GeminiResponse>(
+        'gemini',
+        joinUrl(config.apiEndpoint, `${modelPath(options.model)}:generateContent`),
+        buildBody(messages, options),
+        headers,
+        options
+      )
+
+      if (!Array.isArray(data?.candidates) && !data?.promptFeedback) {
+        throw new LLMError('invalid_response', 'Response contained no candidates', {
+          provider: 'gemini',
+        })
+      }
+
+      return {
+        content: readText(data),
+        model: data.modelVersion || options.model,
+        finishReason: data.candidates?.[0]?.finishReason ?? null,
+        usage: data.usageMetadata ? toUsage(data.usageMetadata) : undefined,
+        toolCalls: (data.candidates?.[0]?.content?.parts || [])
+          .filter(part => part.functionCall)
+          .map(part => ({
+            name: part.functionCall!.name || '',
+            arguments: part.functionCall!.args || {},
+          })),
+      }
+    },
+
+    async *stream(messages, options) {
+      const body = await postStream(
+        'gemini',
+        `${joinUrl(config.apiEndpoint, `${modelPath(options.model)}:streamGenerateContent`)}?alt=sse`,
+        buildBody(messages, options),
+        headers,
+        options
+      )
+
+      try {
+        for await (const { data } of parseEventStream(body)) {
+          const chunk = JSON.parse(data) as GeminiResponse
+
+          // Usage is a running total, the last chunk carries the final one
+          yield {
+            content: readText(chunk),
+            finishReason: chunk.candidates?.[0]?.finishReason,
+            usage: chunk.usageMetadata ? toUsage(chunk.usageMetadata) : undefined,
+          }
+        }
+      } catch (error) {
+        throw normalizeError(error, 'gemini')
+      }
+    },
+
+    async listModels(options = {}) {
+      const entries: NonNullable<GeminiModelList['models']> = []
+      let pageToken: string | undefined
+
+      // The list is paginated, follow it to the end
+      do {
+        const query = new URLSearchParams({ pageSize: '1000' })
+        if (pageToken) query.set('pageToken', pageToken)
+
+        const page = await getJson<GeminiModelList>(
+          'gemini',
+          `${joinUrl(config.apiEndpoint, 'models')}?${query}`,
+          headers,
+          options
+        )
+
+        if (!Array.isArray(page?.models)) {
+          throw new LLMError('invalid_response', 'Response contained no model list', {
+            provider: 'gemini',
+          })
+        }
+
+        entries.push(...page.models)
+        pageToken = page.nextPageToken || undefined
+      } while (pageToken)
+
+      // Embedding and other models cannot chat
+      return entries
+        .filter(entry => entry.supportedGenerationMethods?.includes('generateContent') ?? true)
+        .map(entry => {
+          const id = entry.name.replace(/^models\//, '')
+          return {
+            id,
+            name: entry.displayName || id,
+            ...extractModelMetadata(entry),
+          }
+        })
+    },
+  }
+}
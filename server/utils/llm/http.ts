@@ -0,0 +1,162 @@
+/**
+ * HTTP helpers shared by the provider adapters
+ *
+ * Every request is checked against the outbound URL policy first,
+ * connects only to addresses the policy allows and does not follow
+ * redirects, see ../outbound
+ */
+import { LLMError, normalizeError } from './errors'
+import { checkOutboundUrl, findBlockedError, outboundDispatcher } from '../outbound'
+import type { ChatOptions, ProviderKind } from './types'
+
+// Local models may need time to load on the first request
+const DEFAULT_TIMEOUT = 30000
+
+/**
+ * Append a path to an endpoint, ignoring a trailing slash
+ */
+export function joinUrl(endpoint: string, path: string): string {
+  return `${endpoint.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+}
+
+/**
+ * Refuse URLs the server may not fetch
+ */
+async function assertAllowed(provider: ProviderKind, url: string) {
+  const reason = await checkOutboundUrl(url)
+  if (reason) {
+    throw new LLMError('blocked', reason, { provider })
+  }
+}
+
+/**
+ * Convert a failed request into an LLMError, keeping policy refusals apart
+ */
+function requestError(error: unknown, provider: ProviderKind): LLMError {
+  const blocked = findBlockedError(error)
+  return blocked
+    ? new LLMError('blocked', blocked.message, { provider, cause: error })
+    : normalizeError(error, provider)
+}
+
+/**
+ * POST a JSON body and return the parsed response
+ * Any failure is rethrown as an LLMError
+ */
+export async function postJson<T>(
+  provider: ProviderKind,
+  url: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string>,
+  options: Pick<ChatOptions, 'timeout' | 'signal'>
+): Promise<T> {
+  await assertAllowed(provider, url)
+
+  try {
+    const data = await $fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      timeout: options.timeout ?? DEFAULT_TIMEOUT,
+      signal: options.signal,
+      redirect: 'error',
+      dispatcher: outboundDispatcher,
+    })
+    return data as T
+  } catch (error) {
+    throw requestError(error, provider)
+  }
+}
+
+/**
+ * GET a JSON resource and return the parsed response
+ * Any failure is rethrown as an LLMError
+ */
+export async function getJson<T>(
+  provider: ProviderKind,
+  url: string,
+  headers: Record<string, string>,
+  options: Pick<ChatOptions, 'timeout' | 'signal'> = {}
+): Promise<T> {
+  await assertAllowed(provider, url)
+
+  try {
+    const data = await $fetch(url, {
+      headers,
+      timeout: options.timeout ?? DEFAULT_TIMEOUT,
+      signal: options.signal,
+      redirect: 'error',
+      dispatcher: outboundDispatcher,
+    })
+    return data as T
+  } catch (error) {
+    throw requestError(error, provider)
+  }
+}
+
+/**
+ * DELETE a resource identified by a JSON body
+ * Any failure is rethrown as an LLMError
+ */
+export async function deleteJson(
+  provider: ProviderKind,
+  url: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string>,
+  options: Pick<ChatOptions, 'timeout' | 'signal'> = {}
+): Promise<void> {
+  await assertAllowed(provider, url)
+
+  try {
+    await $fetch(url, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      timeout: options.timeout ?? DEFAULT_TIMEOUT,
+      signal: options.signal,
+      redirect: 'error',
+      dispatcher: outboundDispatcher,
+    })
+  } catch (error) {
+    throw requestError(error, provider)
+  }
+}
+
+/**
+ * POST a JSON body and return the raw response stream
+ * No timeout is applied since streams stay open for the whole reply,
+ * callers cancel through the abort signal instead
+ */
+export async function postStream(
+  provider: ProviderKind,
+  url: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string>,
+  options: Pick<ChatOptions, 'signal'>
+): Promise<ReadableStream<Uint8Array>> {
+  await assertAllowed(provider, url)
+
+  try {
+    const stream = await $fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      responseType: 'stream',
+      signal: options.signal,
+      redirect: 'error',
+      dispatcher: outboundDispatcher,
+    })
+    return stream as ReadableStream<Uint8Array>
+  } catch (error) {
+    throw requestError(error, provider)
+  }
+}
+
+/**
+ * Drop undefined values so providers fall back to their own defaults
+ */
+export function compact(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  )
+}
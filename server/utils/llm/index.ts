@@ -0,0 +1,91 @@
+/**
+ * Provider-agnostic LLM client
+ *
+ * Usage:
+ *   const client = createLLMClient({ apiEndpoint, apiKey })
+ *   const result = await client.chat(messages, { model: 'gpt-4o' })
+ *
+ * Outbound calls are throttled per provider, see ./queue
+ */
+import { createAnthropicClient } from './anthropic'
+import { createAzureClient } from './azure'
+import { createGeminiClient } from './gemini'
+import { createOllamaClient } from './ollama'
+import { createOpenAIClient } from './openai'
+import { withQueue } from './queue'
+import type { ClientConfig, LLMClient, ProviderKind } from './types'
+
+export { LLMError, describeLLMError, isFallbackError, normalizeError, parseRetryAfter } from './errors'
+export { getQueueStats } from './queue'
+export { createOllamaManager } from './ollama'
+export type { OllamaLocalModel, OllamaModelInfo, OllamaPullProgress } from './ollama'
+export type { QueueStats } from './queue'
+export type { LLMErrorCode } from './errors'
+export type {
+  ChatChunk,
+  ChatMessage,
+  ChatOptions,
+  ChatResult,
+  ChatRole,
+  ChatTool,
+  ChatToolCall,
+  ChatUsage,
+  ClientConfig,
+  DiscoveredModel,
+  LLMClient,
+  ProviderKind,
+  QueueLimits,
+} from './types'
+
+/**
+ * Guess the provider from an endpoint URL
+ *
+ * - anthropic.com hosts use the Messages API
+ * - Azure OpenAI resource hosts use deployment URLs
+ * - generativelanguage.googleapis.com uses Gemini's generateContent API
+ * - endpoints ending in /api use Ollama's native API
+ * - everything else is treated as OpenAI-compatible
+ */
+export function detectProvider(apiEndpoint: string): ProviderKind {
+  let url: URL
+  try {
+    url = new URL(apiEndpoint)
+  } catch {
+    return 'openai'
+  }
+
+  if (url.hostname === 'anthropic.com' || url.hostname.endsWith('.anthropic.com')) {
+    return 'anthropic'
+  }
+  if (url.hostname.endsWith('.openai.azure.com')) {
+    return 'azure'
+  }
+  if (url.hostname === 'generativelanguage.googleapis.com') {
+    return 'gemini'
+  }
+  if (/\/api\/?$/.test(url.pathname)) {
+    return 'ollama'
+  }
+  return 'openai'
+}
+
+/**
+ * Create a client for the given endpoint
+ * Chat and stream calls wait their turn in the provider's queue
+ */
+export function createLLMClient(config: ClientConfig): LLMClient {
+  const provider = config.provider || detectProvider(config.apiEndpoint)
+
+  switch (provider) {
+    case 'anthropic':
+      return withQueue(createAnthropicClient(config), config)
+    case 'ollama':
+      return withQueue(createOllamaClient(config), config)
+    case 'azure':
+      return withQueue(createAzureClient(config), config)
+    case 'gemini':
+      return withQueue(createGeminiClient(config), config)
+    default:
+      return withQueue(createOpenAIClient(config), config)
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * Ollama native API adapter
+ *
+ * Talks to /api/chat. Sampling settings go in the `options` object
+ * using Ollama's parameter names, and streams are newline-delimited JSON.
+ *
+ * Also manages the models stored on the server: listing them with
+ * their sizes, reading their details, pulling and deleting.
+ */
+import { LLMError, normalizeError } from './errors'
+import { compact, deleteJson, getJson, joinUrl, postJson, postStream } from './http'
+import { parseJsonLines } from './sse'
+import type { ChatMessage, ChatOptions, ClientConfig, LLMClient } from './types'
+
+interface OllamaResponse {
+  model?: string
+  message?: {
+    content?: string
+    tool_calls?: Array<{ function?: { name?: string; arguments?: Record<string, unknown> } }>
+  }
+  done?: boolean
+  done_reason?: string
+  prompt_eval_count?: number
+  eval_count?: number
+  error?: string
+}
+
+interface OllamaDetails {
+  format?: string
+  family?: string
+  parameter_size?: string
+  quantization_level?: string
+}
+
+interface OllamaTags {
+  models?: Array<{
+    name: string
+    model?: string
+    size?: number
+    digest?: string
+    modified_at?: string
+    details?: OllamaDetails
+  }>
+}
+
+interface OllamaShow {
+  parameters?: string
+  template?: string
+  details?: OllamaDetails
+  model_info?: Record<string, unknown>
+  capabilities?: string[]
+}
+
+export interface OllamaLocalModel {
+  name: string
+  size: number // Bytes on disk
+  digest: string | null
+  modifiedAt: string | null
+  family: string | null
+  parameterSize: string | null // e.g. "8.0B"
+  quantization: string | null // e.g. "Q4_K_M"
+}
+
+export interface OllamaModelInfo {
+  name: string
+  format: string | null
+  family: string | null
+  parameterSize: string | null
+  quantization: string | null
+  contextLength: number | null
+  capabilities: string[] // e.g. "completion", "vision", "tools"
+  parameters: string | null // Modelfile parameters, one per line
+}
+
+export interface OllamaPullProgress {
+  status: string
+  digest?: string
+  total?: number // Bytes of the layer being downloaded
+  completed?: number
+}
+
+function toUsage(data: OllamaResponse) {
+  return data.eval_count !== undefined
+    ? {
+        inputTokens: data.prompt_eval_count ?? 0,
+        outputTokens: data.eval_count,
+      }
+    : undefined
+}
+
+function buildBody(messages: ChatMessage[], options: ChatOptions, stream: boolean) {
+  return compact({
+    model: options.model,
+    messages,
+    stream,
+    format: options.jsonMode ? 'json' : undefined,
+    tools: options.tools?.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })),
+    options: compact({
+      temperature: options.temperature,
+      top_p: options.topP,
+      num_predict: options.maxTokens,
+      stop: options.stop,
+      presence_penalty: options.presencePenalty,
+      frequency_penalty: options.frequencyPenalty,
+    }),
+  })
+}
+
+function buildHeaders(config: ClientConfig): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`
+  }
+  // Custom provider headers take precedence
+  return Object.assign(headers, config.headers)
+}
+
+export function createOllamaClient(config: ClientConfig): LLMClient {
+  const url = joinUrl(config.apiEndpoint, 'chat')
+  const headers = buildHeaders(config)
+
+  return {
+    provider: 'ollama',
+
+    async chat(messages, options) {
+      const data = await postJson<OllamaResponse>(
+        'ollama',
+        url,
+        buildBody(messages, options, false),
+        headers,
+        options
+      )
+
+      if (!data?.message) {
+        throw new LLMError('invalid_response', 'Response contained no message', {
+          provider: 'ollama',
+        })
+      }
+
+      return {
+        content: data.message.content || '',
+        model: data.model || options.model,
+        finishReason: data.done_reason ?? null,
+        usage: toUsage(data),
+        toolCalls: data.message.tool_calls?.map(call => ({
+          name: call.function?.name || '',
+          arguments: call.function?.arguments || {},
+        })),
+      }
+    },
+
+    async *stream(messages, options) {
+      const body = await postStream(
+        'ollama',
+        url,
+        buildBody(messages, options, true),
+        headers,
+        options
+      )
+
+      try {
+        for await (const data of parseJsonLines<OllamaResponse>(body)) {
+          if (data.error) {
+            throw new LLMError('server', data.error, { provider: 'ollama' })
+          }
+
+          yield {
+            content: data.message?.content || '',
+            finishReason: data.done ? data.done_reason ?? null : undefined,
+            usage: data.done ? toUsage(data) : undefined,
+          }
+        }
+      } catch (error) {
+        throw normalizeError(error, 'ollama')
+      }
+    },
+
+    async listModels(options = {}) {
+      const data = await getJson<OllamaTags>(
+        'ollama',
+        joinUrl(config.apiEndpoint, 'tags'),
+        headers,
+        options
+      )
+
+      if (!Array.isArray(data?.models)) {
+        throw new LLMError('invalid_response', 'Response contained no model list', {
+          provider: 'ollama',
+        })
+      }
+
+      return data.models.map(entry => ({
+        id: entry.model || entry.name,
+        name: entry.name,
+      }))
+    },
+  }
+}
+
+/**
+ * Manage the models stored on an Ollama server
+ * Pulls can take minutes, they are not subject to a timeout
+ */
+export function createOllamaManager(config: ClientConfig) {
+  const headers = buildHeaders(config)
+
+  return {
+    async listLocalModels(options: Pick<ChatOptions, 'timeout' | 'signal'> = {}): Promise<OllamaLocalModel[]> {
+      const data = await getJson<OllamaTags>(
+        'ollama',
+        joinUrl(config.apiEndpoint, 'tags'),
+        headers,
+        options
+      )
+
+      if (!Array.isArray(data?.models)) {
+        throw new LLMError('invalid_response', 'Response contained no model list', {
+          provider: 'ollama',
+        })
+      }
+
+      return data.models.map(entry => ({
+        name: entry.model || entry.name,
+        size: entry.size ?? 0,
+        digest: entry.digest ?? null,
+        modifiedAt: entry.modified_at ?? null,
+        family: entry.details?.family ?? null,
+        parameterSize: entry.details?.parameter_size ?? null,
+        quantization: entry.details?.quantization_level ?? null,
+      }))
+    },
+
+    async showModel(name: string, options: Pick<ChatOptions, 'timeout' | 'signal'> = {}): Promise<OllamaModelInfo> {
+      const data = await postJson<OllamaShow>(
+        'ollama',
+        joinUrl(config.apiEndpoint, 'show'),
+        { model: name },
+        headers,
+        options
+      )
+
+      // Keys are prefixed with the architecture, e.g. "llama.context_length"
+      const contextKey = Object.keys(data?.model_info || {}).find(key => key.endsWith('.context_length'))
+      const contextLength = contextKey ? Number(data.model_info![contextKey]) : NaN
+
+      return {
+        name,
+        format: data?.details?.format ?? null,
+        family: data?.details?.family ?? null,
+        parameterSize: data?.details?.parameter_size ?? null,
+        quantization: data?.details?.quantization_level ?? null,
+        contextLength: Number.isFinite(contextLength) ? contextLength : null,
+        capabilities: data?.capabilities ?? [],
+        parameters: data?.parameters?.trim() || null,
+      }
+    },
+
+    async *pullModel(name: string, options: Pick<ChatOptions, 'signal'> = {}): AsyncGenerator<OllamaPullProgress> {
+      const body = await postStream(
+        'ollama',
+        joinUrl(config.apiEndpoint, 'pull'),
+        { model: name, stream: true },
+        headers,
+        options
+      )
+
+      try {
+        for await (const data of parseJsonLines<OllamaPullProgress & { error?: string }>(body)) {
+          // Unknown model names and download failures arrive in the stream
+          if (data.error) {
+            throw new LLMError('server', data.error, { provider: 'ollama' })
+          }
+          yield data
+        }
+      } catch (error) {
+        throw normalizeError(error, 'ollama')
+      }
+    },
+
+    async deleteModel(name: string, options: Pick<ChatOptions, 'timeout' | 'signal'> = {}) {
+      await deleteJson(
+        'ollama',
+        joinUrl(config.apiEndpoint, 'delete'),
+        { model: name },
+        headers,
+        options
+      )
+    },
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * OpenAI-compatible Chat Completions adapter
+ *
+ * Covers OpenAI itself and compatible servers such as LM Studio,
+ * vLLM, OpenRouter and Ollama's /v1 endpoint. Azure OpenAI reuses the
+ * request and response handling with its own URLs, see ./azure
+ */
+import { LLMError, normalizeError } from './errors'
+import { compact, getJson, joinUrl, postJson, postStream } from './http'
+import { parseEventStream } from './sse'
+import { extractModelMetadata } from '../../../shared/discovery'
+import type { ChatMessage, ChatOptions, ClientConfig, LLMClient, ProviderKind } from './types'
+
+interface OpenAIUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+}
+
+interface OpenAIResponse {
+  model?: string
+  choices?: Array<{
+    message?: {
+      content?: string | null
+      tool_calls?: Array<{ function?: { name?: string; arguments?: string } }>
+    }
+    finish_reason?: string | null
+  }>
+  usage?: OpenAIUsage
+}
+
+interface OpenAIModelList {
+  data?: Array<Record<string, unknown> & { id: string; name?: string }>
+}
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: { content?: string | null }
+    finish_reason?: string | null
+  }>
+  usage?: OpenAIUsage | null
+}
+
+function toUsage(usage: OpenAIUsage) {
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+  }
+}
+
+/**
+ * Tool arguments arrive as a JSON string, which models sometimes garble
+ */
+function parseArguments(value: string | undefined): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(value || '{}')
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {}
+  } catch {
+    return {}
+  }
+}
+
+function buildBody(messages: ChatMessage[], options: ChatOptions) {
+  return compact({
+    model: options.model,
+    messages,
+    temperature: options.temperature,
+    top_p: options.topP,
+    max_tokens: options.maxTokens,
+    stop: options.stop,
+    presence_penalty: options.presencePenalty,
+    frequency_penalty: options.frequencyPenalty,
+    response_format: options.jsonMode ? { type: 'json_object' } : undefined,
+    tools: options.tools?.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })),
+  })
+}
+
+/**
+ * Where a Chat Completions API lives and how to list its models
+ */
+export interface CompletionsTarget {
+  provider: ProviderKind
+  chatUrl(model: string): string
+  headers: Record<string, string>
+  listModels: LLMClient['listModels']
+}
+
+/**
+ * Create a client for any API speaking the Chat Completions format
+ */
+export function createCompletionsClient(target: CompletionsTarget): LLMClient {
+  const { provider, headers } = target
+
+  return {
+    provider,
+
+    async chat(messages, options) {
+      const data = await postJson<OpenAIResponse>(
+        provider,
+        target.chatUrl(options.model),
+        buildBody(messages, options),
+        headers,
+        options
+      )
+
+      const choice = data?.choices?.[0]
+      if (!choice?.message) {
+        throw new LLMError('invalid_response', 'Response contained no choices', {
+          provider,
+        })
+      }
+
+      return {
+        content: choice.message.content || '',
+        model: data.model || options.model,
+        finishReason: choice.finish_reason ?? null,
+        usage: data.usage ? toUsage(data.usage) : undefined,
+        toolCalls: choice.message.tool_calls?.map(call => ({
+          name: call.function?.name || '',
+          arguments: parseArguments(call.function?.arguments),
+        })),
+      }
+    },
+
+    async *stream(messages, options) {
+      const url = target.chatUrl(options.model)
+      const request = { ...buildBody(messages, options), stream: true }
+
+      // Usage in streams is an extension some compatible servers and older
+      // Azure versions reject, those stream without it
+      let body: ReadableStream<Uint8Array>
+      try {
+        body = await postStream(
+          provider,
+          url,
+          { ...request, stream_options: { include_usage: true } },
+          headers,
+          options
+        )
+      } catch (error) {
+        if (!(error instanceof LLMError) || error.code !== 'bad_request') throw error
+        body = await postStream(provider, url, request, headers, options)
+      }
+
+      try {
+        for await (const { data } of parseEventStream(body)) {
+          if (data === '[DONE]') break
+
+          const chunk = JSON.parse(data) as OpenAIStreamChunk
+          const choice = chunk.choices?.[0]
+
+          yield {
+            content: choice?.delta?.content || '',
+            finishReason: choice?.finish_reason ?? undefined,
+            usage: chunk.usage ? toUsage(chunk.usage) : undefined,
+          }
+        }
+      } catch (error) {
+        throw normalizeError(error, provider)
+      }
+    },
+
+    listModels: target.listModels,
+  }
+}
+
+export function createOpenAIClient(config: ClientConfig): LLMClient {
+  const url = joinUrl(config.apiEndpoint, 'chat/completions')
+  const headers: Record<string, string> = {}
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`
+  }
+  // Custom provider headers take precedence
+  Object.assign(headers, config.headers)
+
+  return createCompletionsClient({
+    provider: 'openai',
+    chatUrl: () => url,
+    headers,
+
+    async listModels(options = {}) {
+      const data = await getJson<OpenAIModelList>(
+        'openai',
+        joinUrl(config.apiEndpoint, 'models'),
+        headers,
+        options
+      )
+
+      if (!Array.isArray(data?.data)) {
+        throw new LLMError('invalid_response', 'Response contained no model list', {
+          provider: 'openai',
+        })
+      }
+
+      return data.data.map(entry => ({
+        id: entry.id,
+        name: entry.name || entry.id,
+        ...extractModelMetadata(entry),
+      }))
+    },
+  })
+}
@@ -0,0 +1,262 @@
+/**
+ * Outbound request queue
+ *
+ * Chat and stream calls wait for a slot on their provider before they
+ * are sent. Each saved provider has its own queue with the optional
+ * concurrency and requests-per-minute limits set on it. A 429 pauses
+ * the provider for the Retry-After period (or an exponential backoff)
+ * and the request is retried.
+ *
+ * Queues are keyed by provider, not endpoint: providers of different
+ * users may share an endpoint such as https://api.openai.com/v1, and one
+ * user's limits or rate limited key must not hold up the others.
+ * Connections that are not saved yet get a queue of their own per client.
+ *
+ * Queues live in memory, so limits apply per server process. Idle queues
+ * are dropped once nothing in them matters any more.
+ */
+import { LLMError } from './errors'
+import type { ChatOptions, ClientConfig, LLMClient, ProviderKind, QueueLimits } from './types'
+
+const RATE_WINDOW = 60000
+const MAX_RATE_LIMIT_RETRIES = 2
+const BASE_BACKOFF = 1000
+const MAX_BACKOFF = 60000
+
+// A request waiting longer than this gives up instead of piling up forever
+const MAX_WAIT = 120000
+
+interface RequestQueue {
+  active: number
+  waiting: (() => void)[] // Resolvers of the waiting requests
+  starts: number[] // Start times within the rate window, oldest first
+  pausedUntil: number
+  rateLimitStreak: number
+  limits: QueueLimits
+  timer?: ReturnType<typeof setTimeout>
+}
+
+export interface QueueStats {
+  active: number
+  queued: number
+  pausedUntil: Date | null
+}
+
+const queues = new Map<string, RequestQueue>()
+
+function createQueue(limits: QueueLimits = {}): RequestQueue {
+  return { active: 0, waiting: [], starts: [], pausedUntil: 0, rateLimitStreak: 0, limits }
+}
+
+/**
+ * Check if a queue holds nothing a new one would not: no requests, no
+ * pause and no starts still counting against the rate window
+ */
+function isIdle(queue: RequestQueue, now = Date.now()): boolean {
+  return queue.active === 0
+    && queue.waiting.length === 0
+    && queue.pausedUntil <= now
+    && queue.timer === undefined
+    && queue.starts.every(start => start <= now - RATE_WINDOW)
+}
+
+/**
+ * Drop idle queues, so providers that stopped calling or were deleted
+ * do not stay in memory
+ */
+function evictIdleQueues() {
+  const now = Date.now()
+  for (const [key, queue] of queues) {
+    if (isIdle(queue, now)) queues.delete(key)
+  }
+}
+
+/**
+ * Queue of a saved provider, created with its current limits
+ */
+function getQueue(providerId: string, limits: QueueLimits): RequestQueue {
+  let queue = queues.get(providerId)
+  if (!queue) {
+    evictIdleQueues()
+    queue = createQueue(limits)
+    queues.set(providerId, queue)
+  }
+  // The provider's own limits, they change when it is edited
+  queue.limits = limits
+  return queue
+}
+
+/**
+ * Start as many waiting requests as the limits allow
+ * Schedules another pass when a pause or the rate window blocks
+ */
+function dispatch(queue: RequestQueue) {
+  clearTimeout(queue.timer)
+  queue.timer = undefined
+
+  while (queue.waiting.length > 0) {
+    const now = Date.now()
+    const { maxConcurrency, requestsPerMinute } = queue.limits
+
+    // A finishing request dispatches again
+    if (maxConcurrency && queue.active >= maxConcurrency) return
+
+    if (queue.pausedUntil > now) {
+      queue.timer = setTimeout(() => dispatch(queue), queue.pausedUntil - now)
+      return
+    }
+
+    while (queue.starts.length > 0 && queue.starts[0]! <= now - RATE_WINDOW) {
+      queue.starts.shift()
+    }
+    if (requestsPerMinute && queue.starts.length >= requestsPerMinute) {
+      queue.timer = setTimeout(() => dispatch(queue), queue.starts[0]! + RATE_WINDOW - now)
+      return
+    }
+
+    queue.active++
+    queue.starts.push(now)
+    queue.waiting.shift()!()
+  }
+}
+
+/**
+ * Wait for a slot in the queue, resolving to its release function
+ */
+async function acquire(
+  queue: RequestQueue,
+  provider: ProviderKind,
+  signal?: AbortSignal
+): Promise<() => void> {
+  if (signal?.aborted) {
+    throw new LLMError('aborted', 'Request was cancelled', { provider })
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(
+      () => leave(new LLMError('timeout', 'Timed out waiting for the provider to accept the request', { provider })),
+      MAX_WAIT
+    )
+    const leave = (error: LLMError) => {
+      const index = queue.waiting.indexOf(waiter)
+      if (index === -1) return
+      queue.waiting.splice(index, 1)
+      cleanup()
+      reject(error)
+    }
+    const onAbort = () => leave(new LLMError('aborted', 'Request was cancelled', { provider }))
+    const cleanup = () => {
+      clearTimeout(timeout)
+      signal?.removeEventListener('abort', onAbort)
+    }
+
+    const waiter = () => {
+      cleanup()
+      resolve()
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    queue.waiting.push(waiter)
+    dispatch(queue)
+  })
+
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    queue.active--
+    dispatch(queue)
+  }
+}
+
+/**
+ * Pause the queue after a 429
+ * Honours Retry-After, otherwise backs off exponentially
+ */
+function backoff(queue: RequestQueue, retryAfter?: number) {
+  queue.rateLimitStreak++
+  const delay = retryAfter !== undefined
+    ? retryAfter * 1000
+    : Math.min(BASE_BACKOFF * 2 ** (queue.rateLimitStreak - 1), MAX_BACKOFF)
+  queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + delay)
+}
+
+function isRateLimited(error: unknown): error is LLMError {
+  return error instanceof LLMError && error.code === 'rate_limit'
+}
+
+/**
+ * Wrap a client so its chat and stream calls go through its provider's queue
+ * Model listing is cheap and used interactively, so it is not queued
+ */
+export function withQueue(client: LLMClient, config: ClientConfig): LLMClient {
+  const limits = config.limits || {}
+  // Unsaved connections share nothing, their queue lives with the client
+  const ownQueue = config.providerId ? null : createQueue(limits)
+
+  // Looked up per call, the provider's queue may have been evicted meanwhile
+  const enter = async (options: ChatOptions) => {
+    const queue = ownQueue || getQueue(config.providerId!, limits)
+    const release = await acquire(queue, client.provider, options.signal)
+    return { queue, release }
+  }
+
+  return {
+    provider: client.provider,
+    listModels: options => client.listModels(options),
+
+    async chat(messages, options) {
+      for (let attempt = 0; ; attempt++) {
+        const { queue, release } = await enter(options)
+        try {
+          const result = await client.chat(messages, options)
+          queue.rateLimitStreak = 0
+          return result
+        } catch (error) {
+          if (!isRateLimited(error)) throw error
+          backoff(queue, error.retryAfter)
+          if (attempt >= MAX_RATE_LIMIT_RETRIES) throw error
+        } finally {
+          release()
+        }
+      }
+    },
+
+    async *stream(messages, options) {
+      for (let attempt = 0; ; attempt++) {
+        const { queue, release } = await enter(options)
+        let started = false
+        try {
+          for await (const chunk of client.stream(messages, options)) {
+            started = true
+            yield chunk
+          }
+          queue.rateLimitStreak = 0
+          return
+        } catch (error) {
+          if (!isRateLimited(error)) throw error
+          backoff(queue, error.retryAfter)
+          // Part of the reply was already passed on, it cannot be replayed
+          if (started || attempt >= MAX_RATE_LIMIT_RETRIES) throw error
+        } finally {
+          release()
+        }
+      }
+    },
+  }
+}
+
+/**
+ * Current load of a provider
+ */
+export function getQueueStats(providerId: string): QueueStats {
+  const queue = queues.get(providerId)
+  if (!queue) return { active: 0, queued: 0, pausedUntil: null }
+
+  return {
+    active: queue.active,
+    queued: queue.waiting.length,
+    pausedUntil: queue.pausedUntil > Date.now() ? new Date(queue.pausedUntil) : null,
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Streaming response parsers
+ *
+ * OpenAI and Anthropic stream Server-Sent Events, Ollama streams
+ * newline-delimited JSON. Both arrive as raw byte streams.
+ */
+
+export interface ServerSentEvent {
+  event?: string
+  data: string
+}
+
+/**
+ * Split a byte stream into lines, handling chunks that end mid-line
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() ?? ''
+      yield* lines
+    }
+
+    buffer += decoder.decode()
+    if (buffer) yield buffer
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Parse a Server-Sent Events stream into events
+ */
+export async function* parseEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  let event: string | undefined
+  let data: string[] = []
+
+  for await (const line of readLines(body)) {
+    // A blank line dispatches the pending event
+    if (line === '') {
+      if (data.length > 0) {
+        yield { event, data: data.join('\n') }
+      }
+      event = undefined
+      data = []
+      continue
+    }
+
+    // Comment lines keep the connection alive
+    if (line.startsWith(':')) continue
+
+    const separator = line.indexOf(':')
+    const field = separator === -1 ? line : line.slice(0, separator)
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '')
+
+    if (field === 'event') event = value
+    else if (field === 'data') data.push(value)
+  }
+
+  // Flush an event that was not followed by a blank line
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') }
+  }
+}
+
+/**
+ * Parse a newline-delimited JSON stream into objects
+ */
+export async function* parseJsonLines<T>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  for await (const line of readLines(body)) {
+    if (line.trim()) {
+      yield JSON.parse(line) as T
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Shared types for the LLM client layer
+ */
+
+/**
+ * Supported provider API flavours
+ */
+export type ProviderKind = 'openai' | 'anthropic' | 'ollama' | 'azure' | 'gemini'
+
+export type ChatRole = 'system' | 'user' | 'assistant'
+
+export interface ChatMessage {
+  role: ChatRole
+  content: string
+}
+
+/**
+ * Function the model may call, parameters described as JSON Schema
+ */
+export interface ChatTool {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface ChatToolCall {
+  name: string
+  arguments: Record<string, unknown>
+}
+
+/**
+ * Per-request options, mapped onto each provider's own parameter names
+ */
+export interface ChatOptions {
+  model: string
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  stop?: string[]
+  presencePenalty?: number
+  frequencyPenalty?: number
+  jsonMode?: boolean // Force a JSON reply where the API has a switch for it
+  tools?: ChatTool[] // Calls are only reported by chat(), not by stream()
+  timeout?: number // Milliseconds
+  signal?: AbortSignal
+}
+
+export interface ChatUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * Normalized chat completion result
+ */
+export interface ChatResult {
+  content: string
+  model: string
+  finishReason: string | null
+  usage?: ChatUsage
+  toolCalls?: ChatToolCall[]
+}
+
+/**
+ * Incremental piece of a streamed completion
+ * The final chunk carries the finish reason and usage when the provider reports them
+ */
+export interface ChatChunk {
+  content: string
+  finishReason?: string | null
+  usage?: ChatUsage
+}
+
+/**
+ * Model entry returned by discovery, normalized across providers
+ */
+export interface DiscoveredModel {
+  id: string // Identifier to send as `model`
+  name: string // Human friendly name, falls back to the ID
+  contextLength?: number
+  maxOutputTokens?: number
+  capabilities?: {
+    systemPrompt?: boolean
+    streaming?: boolean
+    jsonMode?: boolean
+    toolCalling?: boolean
+  }
+  inputPrice?: number // Per million tokens
+  outputPrice?: number // Per million tokens
+}
+
+/**
+ * Connection settings for a provider endpoint
+ */
+export interface ClientConfig {
+  apiEndpoint: string
+  apiKey?: string | null
+  provider?: ProviderKind // Detected from the endpoint when omitted
+  headers?: Record<string, string> | null // Extra headers sent with every request
+  providerId?: string | null // Saved provider whose queue the calls wait in
+  limits?: QueueLimits | null // Throttling applied per provider
+}
+
+/**
+ * Request limits for a provider, unset limits are unlimited
+ */
+export interface QueueLimits {
+  maxConcurrency?: number | null
+  requestsPerMinute?: number | null
+}
+
+export interface LLMClient {
+  provider: ProviderKind
+  chat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResult>
+  stream(messages: ChatMessage[], options: ChatOptions): AsyncGenerator<ChatChunk>
+  listModels(options?: Pick<ChatOptions, 'timeout' | 'signal'>): Promise<DiscoveredModel[]>
+}
@@ -0,0 +1,147 @@
+/**
+ * Ollama model management utilities
+ *
+ * Relates the models stored on an Ollama server to the configured
+ * models and the assistants using them
+ */
+import { and, eq, inArray } from 'drizzle-orm'
+import { db } from './db'
+import { models } from '../database/schema/models'
+import { providers } from '../database/schema/providers'
+import { assistants, assistantFallbacks } from '../database/schema/assistants'
+import { requireOwnedProvider } from './providers'
+
+export interface OllamaModelUsage {
+  modelIds: string[] // Configured models of the provider pointing at the Ollama model
+  assistants: number // Assistants using it on any provider of the server, directly or as fallback
+}
+
+/**
+ * Ollama treats a name without a tag as ":latest"
+ */
+export function ollamaModelKey(name: string): string {
+  const base = name.slice(name.lastIndexOf('/') + 1)
+  return base.includes(':') ? name : `${name}:latest`
+}
+
+/**
+ * Get a provider of the user that speaks the Ollama API, or throw
+ */
+export async function requireOllamaProvider(userId: string, providerId: string) {
+  const provider = await requireOwnedProvider(userId, providerId)
+
+  if (provider.kind !== 'ollama') {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Provider does not use the Ollama API'
+    })
+  }
+
+  return provider
+}
+
+// Names of the local machine, counted as one host
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]', '0.0.0.0'])
+
+/**
+ * Host and port an endpoint connects to, null for invalid URLs
+ */
+export function endpointHost(apiEndpoint: string): string | null {
+  try {
+    const url = new URL(apiEndpoint)
+    const hostname = LOOPBACK_HOSTS.has(url.hostname) ? 'localhost' : url.hostname
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80')
+    return `${hostname}:${port}`
+  } catch {
+    return null
+  }
+}
+
+/**
+ * IDs of every provider reaching the same server as the given one,
+ * the provider itself included
+ *
+ * Any user's provider counts, whatever API it speaks: an OpenAI-compatible
+ * /v1 provider or a colleague's provider may point at the same Ollama server.
+ */
+export async function getProvidersOnHost(provider: { id: string; apiEndpoint: string }): Promise<string[]> {
+  const host = endpointHost(provider.apiEndpoint)
+
+  const rows = await db
+    .select({ id: providers.id, apiEndpoint: providers.apiEndpoint })
+    .from(providers)
+
+  return rows
+    .filter(row => row.id === provider.id || (host && endpointHost(row.apiEndpoint) === host))
+    .map(row => row.id)
+}
+
+/**
+ * Configured models and assistants per Ollama model of a provider
+ *
+ * The configured models are the provider's own, assistants are counted
+ * across every provider on the same server, see getProvidersOnHost
+ */
+export async function getOllamaModelUsage(
+  providerId: string,
+  hostProviderIds: string[] = [providerId]
+): Promise<Map<string, OllamaModelUsage>> {
+  const configured = await db
+    .select({ id: models.id, modelId: models.modelId, providerId: models.providerId })
+    .from(models)
+    .where(inArray(models.providerId, hostProviderIds))
+
+  const usage = new Map<string, OllamaModelUsage>()
+  if (configured.length === 0) return usage
+
+  const ids = configured.map(model => model.id)
+  const [primary, fallback] = await Promise.all([
+    db
+      .select({ assistantId: assistants.id, modelId: assistants.modelId })
+      .from(assistants)
+      .where(inArray(assistants.modelId, ids)),
+    db
+      .select({ assistantId: assistantFallbacks.assistantId, modelId: assistantFallbacks.modelId })
+      .from(assistantFallbacks)
+      .where(inArray(assistantFallbacks.modelId, ids)),
+  ])
+  const references = [...primary, ...fallback]
+
+  // Every configured model per Ollama model, on any provider of the server
+  const byKey = new Map<string, string[]>()
+  for (const model of configured) {
+    const key = ollamaModelKey(model.modelId)
+    byKey.set(key, [...(byKey.get(key) || []), model.id])
+
+    const entry = usage.get(key) || { modelIds: [], assistants: 0 }
+    if (model.providerId === providerId) entry.modelIds.push(model.id)
+    usage.set(key, entry)
+  }
+
+  for (const [key, entry] of usage) {
+    const modelIds = byKey.get(key) || []
+    const assistantIds = new Set(
+      references
+        .filter(reference => modelIds.includes(reference.modelId))
+        .map(reference => reference.assistantId)
+    )
+    entry.assistants = assistantIds.size
+  }
+
+  return usage
+}
+
+/**
+ * Remove configured models whose Ollama model was deleted
+ */
+export async function deleteConfiguredModels(userId: string, modelIds: string[]) {
+  if (modelIds.length === 0) return []
+
+  return await db
+    .delete(models)
+    .where(and(
+      inArray(models.id, modelIds),
+      eq(models.userId, userId)
+    ))
+    .returning({ id: models.id })
+}
@@ -0,0 +1,287 @@
+/**
+ * Outbound URL policy
+ *
+ * Provider endpoints are user input that the server fetches. To keep
+ * users from reaching internal services through the server (the
+ * database, the identity provider, cloud metadata), host names are
+ * resolved and requests to private, loopback, link-local and other
+ * non-public addresses are refused.
+ *
+ * The administrator opens exceptions with OUTBOUND_ALLOWLIST, as comma
+ * separated entries:
+ * - host names, "*." covers subdomains: ollama, *.lan.example.com
+ * - IP addresses and CIDR ranges: 192.168.1.20, 10.0.0.0/8, fd00::/8
+ * - "*" turns the policy off
+ *
+ * checkOutboundUrl vets a URL up front and gives a readable reason.
+ * Requests themselves go through outboundDispatcher, whose connections
+ * resolve the host once and apply the same policy to the addresses they
+ * connect to, so a DNS server answering differently the second time
+ * cannot slip a private address past the check. Hosts that do not
+ * resolve are blocked. Requests do not follow redirects, so an allowed
+ * endpoint cannot bounce them to a blocked address.
+ */
+import { lookup } from 'node:dns'
+import type { LookupAddress } from 'node:dns'
+import type { LookupFunction } from 'node:net'
+import { isIP } from 'node:net'
+import { promisify } from 'node:util'
+import { Agent } from 'undici'
+
+interface IpAddress {
+  version: 4 | 6
+  value: bigint
+}
+
+interface IpRange extends IpAddress {
+  prefix: number
+}
+
+interface Allowlist {
+  all: boolean
+  hosts: string[] // Exact names, or suffixes starting with "."
+  ranges: IpRange[]
+}
+
+// Addresses that are not on the public internet
+const BLOCKED_RANGES = [
+  '0.0.0.0/8', // "This" network
+  '10.0.0.0/8', // Private
+  '100.64.0.0/10', // Carrier-grade NAT
+  '127.0.0.0/8', // Loopback
+  '169.254.0.0/16', // Link-local, cloud metadata
+  '172.16.0.0/12', // Private
+  '192.0.0.0/24', // IETF protocol assignments
+  '192.168.0.0/16', // Private
+  '198.18.0.0/15', // Benchmarking
+  '224.0.0.0/4', // Multicast
+  '240.0.0.0/4', // Reserved and broadcast
+  '::/128', // Unspecified
+  '::1/128', // Loopback
+  'fc00::/7', // Unique local
+  'fe80::/10', // Link-local
+  'ff00::/8', // Multicast
+].map(entry => parseRange(entry)!)
+
+// IPv6 ranges that embed an IPv4 address in their last 32 bits
+const EMBEDDED_IPV4_RANGES = [
+  '::ffff:0:0/96', // IPv4-mapped
+  '64:ff9b::/96', // NAT64
+].map(entry => parseRange(entry)!)
+
+let allowlist: { source: string; parsed: Allowlist } | null = null
+
+function parseIp(address: string): IpAddress | null {
+  const version = isIP(address)
+  if (version === 4) {
+    const value = address
+      .split('.')
+      .reduce((total, part) => (total << 8n) + BigInt(part), 0n)
+    return { version: 4, value }
+  }
+  if (version !== 6) return null
+
+  // Expand "::" and a trailing dotted IPv4 part into eight groups
+  let groups = address.toLowerCase().split('%')[0]!
+  const dotted = groups.match(/(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const ipv4 = parseIp(dotted[1]!)!.value
+    groups = groups.slice(0, -dotted[1]!.length)
+      + `${(ipv4 >> 16n).toString(16)}:${(ipv4 & 0xffffn).toString(16)}`
+  }
+
+  const [head = '', tail] = groups.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const missing = 8 - headGroups.length - tailGroups.length
+  const all = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array<string>(missing).fill('0'), ...tailGroups]
+
+  const value = all.reduce((total, group) => (total << 16n) + BigInt(`0x${group || '0'}`), 0n)
+  return { version: 6, value }
+}
+
+function parseRange(entry: string): IpRange | null {
+  const [address = '', prefixPart] = entry.split('/')
+  const ip = parseIp(address)
+  if (!ip) return null
+
+  const width = ip.version === 4 ? 32 : 128
+  const prefix = prefixPart === undefined ? width : Number(prefixPart)
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > width) return null
+
+  return { ...ip, prefix }
+}
+
+function inRange(ip: IpAddress, range: IpRange): boolean {
+  if (ip.version !== range.version) return false
+  const shift = BigInt((ip.version === 4 ? 32 : 128) - range.prefix)
+  return ip.value >> shift === range.value >> shift
+}
+
+function isBlockedAddress(ip: IpAddress): boolean {
+  // Judge embedded IPv4 addresses by their own ranges
+  if (EMBEDDED_IPV4_RANGES.some(range => inRange(ip, range))) {
+    return isBlockedAddress({ version: 4, value: ip.value & 0xffffffffn })
+  }
+  return BLOCKED_RANGES.some(range => inRange(ip, range))
+}
+
+/**
+ * Read the allowlist from the environment, parsed again only when it changes
+ */
+function getAllowlist(): Allowlist {
+  const source = process.env.OUTBOUND_ALLOWLIST || ''
+  if (allowlist?.source === source) return allowlist.parsed
+
+  const parsed: Allowlist = { all: false, hosts: [], ranges: [] }
+  for (const raw of source.split(',')) {
+    const entry = raw.trim().toLowerCase()
+    if (!entry) continue
+
+    if (entry === '*') {
+      parsed.all = true
+      continue
+    }
+
+    const range = parseRange(entry)
+    if (range) parsed.ranges.push(range)
+    else if (entry.includes('/')) console.warn(`OUTBOUND_ALLOWLIST: ignoring invalid range "${entry}"`)
+    else parsed.hosts.push(entry.startsWith('*.') ? entry.slice(1) : entry)
+  }
+
+  allowlist = { source, parsed }
+  return parsed
+}
+
+function isAllowedHost(list: Allowlist, hostname: string): boolean {
+  return list.hosts.some(host =>
+    host.startsWith('.') ? hostname.endsWith(host) : hostname === host
+  )
+}
+
+/**
+ * Why a host may not be reached through any of its addresses, or null
+ * Every address counts, a connection may use any of them
+ */
+function blockedReason(list: Allowlist, hostname: string, addresses: string[]): string | null {
+  for (const address of addresses) {
+    const ip = parseIp(address)
+    if (!ip || !isBlockedAddress(ip)) continue
+    if (list.ranges.some(range => inRange(ip, range))) continue
+
+    const target = address === hostname ? hostname : `${hostname} (${address})`
+    return `${target} is a private or internal address, which is blocked unless the administrator allows it`
+  }
+
+  return null
+}
+
+const lookupAll = promisify(
+  (hostname: string, callback: (error: Error | null, addresses: LookupAddress[]) => void) =>
+    lookup(hostname, { all: true, verbatim: true }, callback)
+)
+
+/**
+ * Check a URL against the policy
+ * Returns why it is blocked, or null when the server may fetch it
+ */
+export async function checkOutboundUrl(url: string): Promise<string | null> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'Invalid URL'
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'Only HTTP and HTTPS endpoints are allowed'
+  }
+
+  const list = getAllowlist()
+  // IPv6 literals keep their brackets in URLs
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (list.all || isAllowedHost(list, hostname)) return null
+
+  let addresses: string[]
+  if (isIP(hostname)) {
+    addresses = [hostname]
+  } else {
+    try {
+      addresses = (await lookupAll(hostname)).map(entry => entry.address)
+    } catch {
+      // Nothing to judge, and the request could resolve to anything
+      return `${hostname} could not be resolved`
+    }
+  }
+
+  return blockedReason(list, hostname, addresses)
+}
+
+/**
+ * Connection error of a request the policy refused
+ */
+export class OutboundBlockedError extends Error {
+  readonly code = 'EOUTBOUNDBLOCKED'
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'OutboundBlockedError'
+  }
+}
+
+/**
+ * Find the policy refusal behind a failed request, if that is what failed
+ * Fetch wraps connection errors in one or more causes
+ */
+export function findBlockedError(error: unknown): OutboundBlockedError | null {
+  for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+    if (current instanceof OutboundBlockedError) return current
+  }
+  return null
+}
+
+/**
+ * DNS lookup for outbound connections, refusing blocked addresses
+ * The addresses it approves are the ones the socket connects to
+ */
+const policyLookup: LookupFunction = (hostname, options, callback) => {
+  const list = getAllowlist()
+  const host = hostname.toLowerCase()
+
+  lookup(hostname, { ...options, all: true }, (error, entries) => {
+    if (error) return callback(error, [])
+
+    if (!list.all && !isAllowedHost(list, host)) {
+      const reason = blockedReason(list, host, entries.map(entry => entry.address))
+      if (reason) return callback(new OutboundBlockedError(reason), [])
+    }
+
+    if (options.all) return callback(null, entries)
+    const [first] = entries
+    callback(null, first!.address, first!.family)
+  })
+}
+
+/**
+ * Dispatcher for every request to a user-supplied endpoint
+ * Pass it as `dispatcher` to fetch or $fetch
+ */
+export const outboundDispatcher = new Agent({
+  connect: { lookup: policyLookup },
+})
+
+/**
+ * Reject a user-supplied endpoint the server may not fetch
+ */
+export async function assertOutboundUrl(url: string) {
+  const reason = await checkOutboundUrl(url)
+
+  if (reason) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: reason
+    })
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Production participant utilities
+ *
+ * Helpers for reading the production_assistants junction and
+ * loading everything needed to generate a turn
+ */
+import { and, asc, eq, inArray, lt, notInArray, sql } from 'drizzle-orm'
+import { db } from './db'
+import { productions, productionAssistants } from '../database/schema/productions'
+import { affiliations, personaAffiliations } from '../database/schema/affiliations'
+import { assistants, assistantFallbacks } from '../database/schema/assistants'
+import { models } from '../database/schema/models'
+import { personas } from '../database/schema/personas'
+import { providers } from '../database/schema/providers'
+import { scenarios } from '../database/schema/scenarios'
+import { turns } from '../database/schema/turns'
+import { worlds } from '../database/schema/worlds'
+import type { ContextInput, ContextParticipant } from './context'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+/**
+ * Get assistant IDs for the given productions, keyed by production ID
+ */
+export async function getAssistantIdsByProduction(
+  productionIds: string[]
+): Promise<Map<string, string[]>> {
+  const participants = new Map<string, string[]>()
+  if (productionIds.length === 0) return participants
+
+  const rows = await db
+    .select()
+    .from(productionAssistants)
+    .where(inArray(productionAssistants.productionId, productionIds))
+
+  for (const row of rows) {
+    const ids = participants.get(row.productionId) || []
+    ids.push(row.assistantId)
+    participants.set(row.productionId, ids)
+  }
+
+  return participants
+}
+
+/**
+ * Check if removing assistants leaves a production of the user with fewer
+ * than 2 of them, e.g. when their persona or model is deleted
+ */
+export async function leavesProductionUnderstaffed(
+  tx: Transaction,
+  userId: string,
+  assistantIds: string[]
+): Promise<boolean> {
+  if (assistantIds.length === 0) return false
+
+  // Productions of the user the assistants take part in
+  const affected = tx
+    .select({ productionId: productionAssistants.productionId })
+    .from(productionAssistants)
+    .innerJoin(productions, eq(productionAssistants.productionId, productions.id))
+    .where(and(
+      inArray(productionAssistants.assistantId, assistantIds),
+      eq(productions.userId, userId)
+    ))
+
+  const [understaffed] = await tx
+    .select({ productionId: productionAssistants.productionId })
+    .from(productionAssistants)
+    .where(inArray(productionAssistants.productionId, affected))
+    .groupBy(productionAssistants.productionId)
+    .having(lt(
+      sql<number>`count(*) filter (where ${notInArray(productionAssistants.assistantId, assistantIds)})`,
+      2
+    ))
+    .limit(1)
+
+  return Boolean(understaffed)
+}
+
+/**
+ * Load a production with its world, scenario, participants and turns
+ * Returns null when the production does not exist or belongs to someone else
+ */
+export async function loadProductionCast(productionId: string, userId: string) {
+  const [production] = await db
+    .select({
+      production: productions,
+      world: worlds,
+      scenario: scenarios,
+    })
+    .from(productions)
+    .innerJoin(worlds, eq(productions.worldId, worlds.id))
+    .innerJoin(scenarios, eq(productions.scenarioId, scenarios.id))
+    .where(and(
+      eq(productions.id, productionId),
+      eq(productions.userId, userId)
+    ))
+    .limit(1)
+
+  if (!production) return null
+
+  const cast = await db
+    .select({
+      assistant: assistants,
+      persona: personas,
+      model: models,
+      provider: providers,
+    })
+    .from(productionAssistants)
+    .innerJoin(assistants, eq(productionAssistants.assistantId, assistants.id))
+    .innerJoin(personas, eq(assistants.personaId, personas.id))
+    .innerJoin(models, eq(assistants.modelId, models.id))
+    .innerJoin(providers, eq(models.providerId, providers.id))
+    .where(eq(productionAssistants.productionId, productionId))
+
+  // Affiliations of every participating persona
+  const personaIds = cast.map(({ persona }) => persona.id)
+  const memberships = personaIds.length > 0
+    ? await db
+      .select({
+        personaId: personaAffiliations.personaId,
+        affiliation: affiliations,
+      })
+      .from(personaAffiliations)
+      .innerJoin(affiliations, eq(personaAffiliations.affiliationId, affiliations.id))
+      .where(inArray(personaAffiliations.personaId, personaIds))
+    : []
+
+  // Fallback models of every participant, in chain order
+  const assistantIds = cast.map(({ assistant }) => assistant.id)
+  const fallbacks = assistantIds.length > 0
+    ? await db
+      .select({
+        assistantId: assistantFallbacks.assistantId,
+        model: models,
+        provider: providers,
+      })
+      .from(assistantFallbacks)
+      .innerJoin(models, eq(assistantFallbacks.modelId, models.id))
+      .innerJoin(providers, eq(models.providerId, providers.id))
+      .where(inArray(assistantFallbacks.assistantId, assistantIds))
+      .orderBy(asc(assistantFallbacks.position))
+    : []
+
+  const participants = cast.map(({ assistant, persona, model, provider }) => ({
+    assistantId: assistant.id,
+    assistant,
+    persona,
+    model,
+    provider,
+    fallbacks: fallbacks
+      .filter(fallback => fallback.assistantId === assistant.id)
+      .map(({ model, provider }) => ({ model, provider })),
+    affiliations: memberships
+      .filter(membership => membership.personaId === persona.id)
+      .map(membership => membership.affiliation),
+  })) satisfies ContextParticipant[]
+
+  const history = await db
+    .select()
+    .from(turns)
+    .where(eq(turns.productionId, productionId))
+    .orderBy(asc(turns.turnNumber))
+
+  const context: ContextInput = {
+    world: production.world,
+    scenario: production.scenario,
+    participants,
+  }
+
+  return {
+    production: production.production,
+    context,
+    participants,
+    turns: history,
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Provider connection utilities
+ *
+ * Helpers for loading providers and turning them into LLM client
+ * configurations
+ */
+import { and, eq, type InferSelectModel } from 'drizzle-orm'
+import { db } from './db'
+import { providers } from '../database/schema/providers'
+import { decrypt, maskApiKey } from './crypto'
+import type { ClientConfig } from './llm'
+
+type Provider = InferSelectModel<typeof providers>
+
+/**
+ * Get a provider that belongs to the user, or throw a 404
+ */
+export async function requireOwnedProvider(userId: string, providerId: string) {
+  const [provider] = await db
+    .select()
+    .from(providers)
+    .where(and(
+      eq(providers.id, providerId),
+      eq(providers.userId, userId)
+    ))
+    .limit(1)
+
+  if (!provider) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Provider not found'
+    })
+  }
+
+  return provider
+}
+
+/**
+ * Build the client configuration for a provider, decrypting its key
+ */
+export function getProviderConnection(provider: Provider): ClientConfig {
+  return {
+    apiEndpoint: provider.apiEndpoint,
+    apiKey: decrypt(provider.apiKey),
+    provider: provider.kind,
+    headers: provider.headers,
+    providerId: provider.id,
+    limits: {
+      maxConcurrency: provider.maxConcurrency,
+      requestsPerMinute: provider.requestsPerMinute,
+    },
+  }
+}
+
+/**
+ * Build the client configuration for a model of a provider
+ * Headers set on the model override the provider's
+ */
+export function getModelConnection(
+  provider: Provider,
+  model: { headers: Record<string, string> | null }
+): ClientConfig {
+  const connection = getProviderConnection(provider)
+  if (!model.headers) return connection
+
+  return {
+    ...connection,
+    headers: { ...connection.headers, ...model.headers },
+  }
+}
+
+/**
+ * Mask the API key before sending a provider to the client
+ */
+export function maskProvider(provider: Provider) {
+  return {
+    ...provider,
+    apiKey: maskApiKey(provider.apiKey)
+  }
+}
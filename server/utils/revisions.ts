@@ -0,0 +1,73 @@
+/**
+ * Persona revision utilities
+ *
+ * Helpers for writing and reading the persona_revisions history
+ */
+import { and, desc, eq } from 'drizzle-orm'
+import { db } from './db'
+import { personaRevisions } from '../database/schema/personas'
+import type { personas, PersonaRevisionSource } from '../database/schema/personas'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+type Persona = typeof personas.$inferSelect
+
+// Fields a revision keeps, in display order
+export const REVISION_FIELDS = ['name', 'universalTruth', 'internalTruth', 'externalTruth'] as const
+
+/**
+ * Snapshot a persona as its next revision
+ * Skipped when nothing a revision keeps has changed, e.g. when only the
+ * affiliations were edited; returns the revision number either way
+ *
+ * Call it in the transaction that wrote the persona, the row lock taken
+ * by that write keeps concurrent updates from picking the same number.
+ */
+export async function recordPersonaRevision(
+  tx: Transaction,
+  persona: Persona,
+  source: PersonaRevisionSource,
+  restoredFrom: number | null = null
+): Promise<number> {
+  const [latest] = await tx
+    .select()
+    .from(personaRevisions)
+    .where(eq(personaRevisions.personaId, persona.id))
+    .orderBy(desc(personaRevisions.revision))
+    .limit(1)
+
+  if (latest && source === 'update' && REVISION_FIELDS.every(field => latest[field] === persona[field])) {
+    return latest.revision
+  }
+
+  const revision = (latest?.revision ?? 0) + 1
+  await tx.insert(personaRevisions).values({
+    personaId: persona.id,
+    userId: persona.userId,
+    revision,
+    name: persona.name,
+    universalTruth: persona.universalTruth,
+    internalTruth: persona.internalTruth,
+    externalTruth: persona.externalTruth,
+    source,
+    restoredFrom,
+  })
+
+  return revision
+}
+
+/**
+ * Get a single revision of a persona owned by the user
+ */
+export async function getPersonaRevision(userId: string, personaId: string, revision: number) {
+  const [row] = await db
+    .select()
+    .from(personaRevisions)
+    .where(and(
+      eq(personaRevisions.personaId, personaId),
+      eq(personaRevisions.userId, userId),
+      eq(personaRevisions.revision, revision)
+    ))
+    .limit(1)
+
+  return row
+}
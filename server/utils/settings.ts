@@ -0,0 +1,41 @@
+/**
+ * Model settings utilities
+ *
+ * Layering of sampling parameters. Assistant
+ * overrides win over model defaults, which win over the provider's
+ * own defaults.
+ */
+import type { ModelSettings } from '../database/schema/models'
+
+/**
+ * Merge settings layers, later layers win
+ * Unset (undefined or null) values never overwrite earlier ones
+ */
+export function mergeModelSettings(
+  ...layers: (ModelSettings | null | undefined)[]
+): ModelSettings {
+  const merged: ModelSettings = {}
+
+  for (const layer of layers) {
+    if (!layer) continue
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined && value !== null) {
+        Object.assign(merged, { [key]: value })
+      }
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Drop unset values so stored overrides stay minimal
+ * Returns null when nothing is set
+ */
+export function compactModelSettings(
+  settings: ModelSettings | null | undefined
+): ModelSettings | null {
+  const compacted = mergeModelSettings(settings)
+  if (compacted.stop?.length === 0) delete compacted.stop
+  return Object.keys(compacted).length > 0 ? compacted : null
+}
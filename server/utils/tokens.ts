@@ -0,0 +1,181 @@
+/**
+ * Token counting
+ *
+ * Estimates how many tokens a text takes for a given model. OpenAI's GPT
+ * models are counted exactly with the matching BPE encoding. Other models
+ * behind OpenAI-compatible endpoints (e.g. Llama on LM Studio) are counted
+ * with cl100k_base too, but as an estimate since their own tokenizer
+ * differs. Anthropic, Gemini and Ollama models publish no tokenizer that
+ * runs here, so their counts are a character based estimate.
+ */
+import { Tiktoken } from 'js-tiktoken/lite'
+import type { PromptSection, PromptSectionId } from './context'
+import type { ChatMessage, ProviderKind } from './llm'
+
+export type Tokenizer = 'o200k_base' | 'cl100k_base' | 'anthropic' | 'gemini' | 'llama'
+
+export interface TokenizerChoice {
+  tokenizer: Tokenizer
+  exact: boolean // False when the tokenizer only approximates the model's own
+}
+
+export interface TokenCounter {
+  tokenizer: Tokenizer
+  exact: boolean // False for estimates
+  count(text: string): number
+}
+
+export interface TokenCounts {
+  tokenizer: Tokenizer
+  exact: boolean
+  counts: Record<string, number>
+  total: number
+}
+
+export interface PromptBudget {
+  tokenizer: Tokenizer
+  exact: boolean
+  sections: { id: PromptSectionId; tokens: number }[] // System prompt parts
+  history: number // Conversation messages after the system prompt
+  framing: number // Message wrappers and section separators
+  total: number
+}
+
+// Characters per token of English text for the estimated tokenizers
+const CHARS_PER_TOKEN: Record<'anthropic' | 'gemini' | 'llama', number> = {
+  anthropic: 3.5,
+  gemini: 4,
+  llama: 3.8,
+}
+
+// Chat formats wrap every message in a few tokens, and prime the reply
+const TOKENS_PER_MESSAGE = 3
+const TOKENS_PER_REPLY = 3
+
+// Rank tables are large, they are loaded on first use and kept
+const encoders = new Map<'o200k_base' | 'cl100k_base', Promise<Tiktoken>>()
+
+// OpenAI models whose encoding is known
+const O200K_MODELS = /gpt-4o|gpt-4\.[15]|gpt-5|chatgpt|(^|\/)o\d/
+const CL100K_MODELS = /gpt-4|gpt-3\.5|gpt-35|text-embedding-(3|ada-002)/
+
+/**
+ * Pick the tokenizer for a model
+ * GPT-4o and later use o200k_base, GPT-4 and GPT-3.5 cl100k_base; other
+ * OpenAI-compatible models get cl100k_base as an estimate
+ */
+export function tokenizerFor(provider: ProviderKind, modelId: string): TokenizerChoice {
+  const id = modelId.toLowerCase()
+
+  if (provider === 'anthropic' || id.includes('claude')) return { tokenizer: 'anthropic', exact: false }
+  if (provider === 'gemini' || id.includes('gemini')) return { tokenizer: 'gemini', exact: false }
+  if (provider === 'ollama') return { tokenizer: 'llama', exact: false }
+  if (O200K_MODELS.test(id)) return { tokenizer: 'o200k_base', exact: true }
+  return { tokenizer: 'cl100k_base', exact: CL100K_MODELS.test(id) }
+}
+
+function loadEncoder(tokenizer: 'o200k_base' | 'cl100k_base'): Promise<Tiktoken> {
+  let encoder = encoders.get(tokenizer)
+  if (!encoder) {
+    encoder = (tokenizer === 'o200k_base'
+      ? import('js-tiktoken/ranks/o200k_base')
+      : import('js-tiktoken/ranks/cl100k_base')
+    ).then(ranks => new Tiktoken(ranks.default))
+    encoders.set(tokenizer, encoder)
+  }
+  return encoder
+}
+
+/**
+ * Estimate from the character count
+ * Characters outside ASCII (accents, CJK, emoji) are counted as a token each
+ */
+function estimateTokens(text: string, charsPerToken: number): number {
+  let ascii = 0
+  let other = 0
+  for (const char of text) {
+    if (char.codePointAt(0)! < 128) ascii++
+    else other++
+  }
+  return Math.ceil(ascii / charsPerToken + other)
+}
+
+/**
+ * Get a counter for a tokenizer
+ */
+export async function getTokenCounter({ tokenizer, exact }: TokenizerChoice): Promise<TokenCounter> {
+  if (tokenizer === 'anthropic' || tokenizer === 'gemini' || tokenizer === 'llama') {
+    const charsPerToken = CHARS_PER_TOKEN[tokenizer]
+    return {
+      tokenizer,
+      exact: false,
+      count: text => estimateTokens(text, charsPerToken),
+    }
+  }
+
+  const encoder = await loadEncoder(tokenizer)
+  return {
+    tokenizer,
+    exact,
+    count: text => (text ? encoder.encode(text).length : 0),
+  }
+}
+
+/**
+ * Count the tokens of a chat request, including the message framing
+ */
+export function countMessageTokens(counter: TokenCounter, messages: ChatMessage[]): number {
+  return messages.reduce(
+    (total, message) => total + TOKENS_PER_MESSAGE + counter.count(message.content),
+    TOKENS_PER_REPLY
+  )
+}
+
+/**
+ * Longest start of a text that fits in a number of tokens
+ */
+export function truncateToTokens(counter: TokenCounter, text: string, maxTokens: number): string {
+  if (maxTokens <= 0) return ''
+  if (counter.count(text) <= maxTokens) return text
+
+  // Token counts grow with the length, so the cut can be searched for
+  let low = 0
+  let high = text.length
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (counter.count(text.slice(0, middle)) <= maxTokens) low = middle
+    else high = middle - 1
+  }
+
+  // Do not split a surrogate pair
+  const last = text.charCodeAt(low - 1)
+  return text.slice(0, last >= 0xd800 && last <= 0xdbff ? low - 1 : low)
+}
+
+/**
+ * Break the token count of an assembled prompt down into its parts
+ * The messages start with the system prompt built from the sections
+ */
+export function measurePrompt(
+  counter: TokenCounter,
+  sections: PromptSection[],
+  messages: ChatMessage[]
+): PromptBudget {
+  const sectionTokens = sections.map(section => ({
+    id: section.id,
+    tokens: counter.count(section.text),
+  }))
+  const history = messages
+    .filter(message => message.role !== 'system')
+    .reduce((sum, message) => sum + counter.count(message.content), 0)
+  const total = countMessageTokens(counter, messages)
+
+  return {
+    tokenizer: counter.tokenizer,
+    exact: counter.exact,
+    sections: sectionTokens,
+    history,
+    framing: total - history - sectionTokens.reduce((sum, section) => sum + section.tokens, 0),
+    total,
+  }
+}
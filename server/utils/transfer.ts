@@ -0,0 +1,240 @@
+/**
+ * Model configuration transfer
+ *
+ * Exports a user's providers and models to a portable JSON or YAML
+ * file and imports such files, reusing matching providers and
+ * skipping models that are already configured. API keys never leave
+ * the server, exports carry a placeholder that is replaced on import.
+ */
+import { eq } from 'drizzle-orm'
+import { parse, stringify } from 'yaml'
+import type { z } from 'zod'
+import { db } from './db'
+import { encrypt } from './crypto'
+import { compactModelSettings } from './settings'
+import { models } from '../database/schema/models'
+import { providers } from '../database/schema/providers'
+import { API_KEY_PLACEHOLDER, modelExportSchema } from '../../shared/validation'
+
+export type ModelExport = z.infer<typeof modelExportSchema>
+export type ExportFormat = 'json' | 'yaml'
+
+export interface ImportPlan {
+  providers: {
+    index: number
+    name: string
+    kind: ModelExport['providers'][number]['kind']
+    apiEndpoint: string
+    existingProviderId: string | null // Matching provider that will be reused
+    needsApiKey: boolean // Exported with a key, which has to be entered again
+  }[]
+  models: {
+    providerIndex: number
+    name: string
+    modelId: string
+    duplicate: boolean // Already configured, or repeated in the file
+  }[]
+}
+
+/**
+ * Endpoints are stored without a trailing slash
+ */
+function normalizeEndpoint(apiEndpoint: string): string {
+  return apiEndpoint.replace(/\/+$/, '')
+}
+
+/**
+ * Collect the user's providers and their models, keys replaced by a placeholder
+ */
+export async function buildModelExport(userId: string): Promise<ModelExport> {
+  const [userProviders, userModels] = await Promise.all([
+    db.select().from(providers).where(eq(providers.userId, userId)).orderBy(providers.name),
+    db.select().from(models).where(eq(models.userId, userId)).orderBy(models.name),
+  ])
+
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    providers: userProviders.map(provider => ({
+      name: provider.name,
+      kind: provider.kind,
+      apiEndpoint: provider.apiEndpoint,
+      apiKey: provider.apiKey ? API_KEY_PLACEHOLDER : null,
+      headers: provider.headers,
+      maxConcurrency: provider.maxConcurrency,
+      requestsPerMinute: provider.requestsPerMinute,
+      models: userModels
+        .filter(model => model.providerId === provider.id)
+        .map(model => ({
+          name: model.name,
+          modelId: model.modelId,
+          contextLength: model.contextLength,
+          maxOutputTokens: model.maxOutputTokens,
+          defaultSettings: model.defaultSettings,
+          capabilities: model.capabilities,
+          inputPrice: model.inputPrice,
+          outputPrice: model.outputPrice,
+          headers: model.headers,
+        })),
+    })),
+  }
+}
+
+export function serializeModelExport(data: ModelExport, format: ExportFormat): string {
+  return format === 'yaml' ? stringify(data) : JSON.stringify(data, null, 2)
+}
+
+/**
+ * Parse and validate an uploaded file
+ * YAML is a superset of JSON, so one parser reads both formats
+ */
+export function parseModelExport(content: string): ModelExport {
+  let raw: unknown
+  try {
+    raw = parse(content)
+  } catch {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'The file is not valid JSON or YAML'
+    })
+  }
+
+  const result = modelExportSchema.safeParse(raw)
+  if (!result.success) {
+    const issue = result.error.errors[0]
+    throw createError({
+      statusCode: 400,
+      statusMessage: issue
+        ? `${issue.path.join('.') || 'file'}: ${issue.message}`
+        : 'Invalid model configuration file'
+    })
+  }
+
+  return result.data
+}
+
+/**
+ * Work out which providers are reused and which models are duplicates
+ * Providers match on API type and endpoint, duplicates on modelId|provider
+ */
+export async function planModelImport(userId: string, data: ModelExport): Promise<ImportPlan> {
+  const [userProviders, existingModels] = await Promise.all([
+    db
+      .select({ id: providers.id, kind: providers.kind, apiEndpoint: providers.apiEndpoint })
+      .from(providers)
+      .where(eq(providers.userId, userId)),
+    db
+      .select({ modelId: models.modelId, providerId: models.providerId })
+      .from(models)
+      .where(eq(models.userId, userId)),
+  ])
+
+  const existingSet = new Set(
+    existingModels.map(m => `${m.modelId}|${m.providerId}`)
+  )
+
+  const plan: ImportPlan = { providers: [], models: [] }
+
+  data.providers.forEach((provider, index) => {
+    const apiEndpoint = normalizeEndpoint(provider.apiEndpoint)
+    const existing = userProviders.find(p =>
+      p.kind === provider.kind && normalizeEndpoint(p.apiEndpoint) === apiEndpoint
+    )
+
+    plan.providers.push({
+      index,
+      name: provider.name,
+      kind: provider.kind,
+      apiEndpoint,
+      existingProviderId: existing?.id ?? null,
+      needsApiKey: !existing && Boolean(provider.apiKey),
+    })
+
+    // New providers are keyed by their position in the file
+    const providerKey = existing?.id ?? `new:${index}`
+    for (const model of provider.models) {
+      const key = `${model.modelId}|${providerKey}`
+      plan.models.push({
+        providerIndex: index,
+        name: model.name,
+        modelId: model.modelId,
+        duplicate: existingSet.has(key),
+      })
+      existingSet.add(key)
+    }
+  })
+
+  return plan
+}
+
+/**
+ * Create the planned providers and models in one transaction
+ * Keys are taken from apiKeys by provider index, a missing key leaves
+ * the provider without one so it can be added later
+ */
+export async function applyModelImport(
+  userId: string,
+  data: ModelExport,
+  plan: ImportPlan,
+  apiKeys: Record<string, string>
+) {
+  return await db.transaction(async (tx) => {
+    const providerIds: string[] = []
+    let createdProviders = 0
+
+    for (const planned of plan.providers) {
+      if (planned.existingProviderId) {
+        providerIds.push(planned.existingProviderId)
+        continue
+      }
+
+      const provider = data.providers[planned.index]!
+      const apiKey = provider.apiKey && provider.apiKey !== API_KEY_PLACEHOLDER
+        ? provider.apiKey
+        : apiKeys[planned.index]?.trim() || null
+
+      const [createdProvider] = await tx
+        .insert(providers)
+        .values({
+          userId,
+          name: provider.name,
+          kind: provider.kind,
+          apiEndpoint: planned.apiEndpoint,
+          apiKey: encrypt(apiKey),
+          headers: provider.headers ?? null,
+          maxConcurrency: provider.maxConcurrency ?? null,
+          requestsPerMinute: provider.requestsPerMinute ?? null
+        })
+        .returning({ id: providers.id })
+
+      providerIds.push(createdProvider!.id)
+      createdProviders++
+    }
+
+    const newModels = data.providers.flatMap((provider, index) =>
+      provider.models.map(model => ({ model, providerId: providerIds[index]! }))
+    ).filter((_, position) => !plan.models[position]!.duplicate)
+
+    const createdModels = newModels.length === 0
+      ? []
+      : await tx
+          .insert(models)
+          .values(newModels.map(({ model, providerId }) => ({
+            userId,
+            name: model.name,
+            providerId,
+            modelId: model.modelId,
+            isDefault: false,
+            contextLength: model.contextLength ?? null,
+            maxOutputTokens: model.maxOutputTokens ?? null,
+            defaultSettings: compactModelSettings(model.defaultSettings),
+            capabilities: model.capabilities ?? null,
+            inputPrice: model.inputPrice ?? null,
+            outputPrice: model.outputPrice ?? null,
+            headers: model.headers ?? null
+          })))
+          .returning()
+
+    return { createdProviders, createdModels }
+  })
+}
@@ -0,0 +1,34 @@
+/**
+ * Multipart upload limits
+ *
+ * h3 buffers a whole multipart body before it can be inspected, so the
+ * size is checked against the Content-Length header beforehand. Node
+ * never reads past the declared length, which makes the header binding.
+ * Chunked uploads carry no length and are refused.
+ */
+import type { H3Event } from 'h3'
+
+// Room for the multipart boundaries and part headers around the file
+const FORM_OVERHEAD_BYTES = 64 * 1024
+
+/**
+ * Refuse uploads without a length or with a file larger than the limit
+ */
+export function assertUploadSize(event: H3Event, maxBytes: number, message: string) {
+  const header = getRequestHeader(event, 'content-length')
+  const contentLength = header ? Number(header) : Number.NaN
+
+  if (!Number.isSafeInteger(contentLength) || contentLength < 0) {
+    throw createError({
+      statusCode: 411,
+      statusMessage: 'Content-Length is required'
+    })
+  }
+
+  if (contentLength > maxBytes + FORM_OVERHEAD_BYTES) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: message
+    })
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Usage accounting utilities
+ *
+ * Records the token counts providers report for each call and prices
+ * them with the model's per-million-token rates
+ */
+import { and, asc, desc, eq, gte, sql, type InferSelectModel } from 'drizzle-orm'
+import { alias } from 'drizzle-orm/pg-core'
+import { db } from './db'
+import { assistants } from '../database/schema/assistants'
+import { models } from '../database/schema/models'
+import { personas } from '../database/schema/personas'
+import { usageRecords } from '../database/schema/usage'
+import type { ChatUsage } from './llm'
+
+type Model = InferSelectModel<typeof models>
+
+export interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  cost: number | null // Null when no priced calls were made
+}
+
+export interface UsageSummary {
+  totals: UsageTotals
+  byDay: (UsageTotals & { day: string })[] // YYYY-MM-DD, oldest first
+  byModel: (UsageTotals & { modelId: string | null; name: string | null })[]
+  byAssistant: (UsageTotals & { assistantId: string | null; name: string | null })[]
+}
+
+interface UsageEntry {
+  userId: string
+  model: Pick<Model, 'id' | 'inputPrice' | 'outputPrice'>
+  usage: ChatUsage
+  assistantId?: string | null
+  productionId?: string | null
+}
+
+/**
+ * Price a call, null when the model has no prices set
+ */
+export function calculateCost(
+  usage: ChatUsage,
+  model: Pick<Model, 'inputPrice' | 'outputPrice'>
+): number | null {
+  if (model.inputPrice == null && model.outputPrice == null) return null
+
+  return (
+    usage.inputTokens * (model.inputPrice ?? 0)
+    + usage.outputTokens * (model.outputPrice ?? 0)
+  ) / 1_000_000
+}
+
+/**
+ * Write a usage record
+ * Accounting must never fail the call it describes, so errors are only logged
+ */
+export async function recordUsage({ userId, model, usage, assistantId, productionId }: UsageEntry) {
+  try {
+    await db
+      .insert(usageRecords)
+      .values({
+        userId,
+        modelId: model.id,
+        assistantId: assistantId ?? null,
+        productionId: productionId ?? null,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost: calculateCost(usage, model),
+      })
+  } catch (error) {
+    console.error('Failed to record usage:', error)
+  }
+}
+
+// Aggregates shared by every breakdown, counts come back from the driver as strings
+const totalsColumns = {
+  requests: sql<number>`count(*)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${usageRecords.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${usageRecords.outputTokens}), 0)`.mapWith(Number),
+  cost: sql<number | null>`sum(${usageRecords.cost})`.mapWith(Number),
+}
+
+/**
+ * Summarize a user's usage since a point in time
+ * Records of deleted models and assistants are grouped with a null id
+ */
+export async function getUsageSummary(userId: string, since: Date): Promise<UsageSummary> {
+  const scope = and(
+    eq(usageRecords.userId, userId),
+    gte(usageRecords.createdAt, since)
+  )
+  const day = sql<string>`to_char(${usageRecords.createdAt}, 'YYYY-MM-DD')`
+  // Assistants without a custom name go by persona@model, as in the sidebar
+  const assistantModels = alias(models, 'assistant_models')
+  const assistantName = sql<string | null>`coalesce(${assistants.name}, ${personas.name} || '@' || ${assistantModels.name})`
+
+  const [[totals], byDay, byModel, byAssistant] = await Promise.all([
+    db
+      .select(totalsColumns)
+      .from(usageRecords)
+      .where(scope),
+    db
+      .select({ day, ...totalsColumns })
+      .from(usageRecords)
+      .where(scope)
+      .groupBy(day)
+      .orderBy(asc(day)),
+    db
+      .select({ modelId: usageRecords.modelId, name: models.name, ...totalsColumns })
+      .from(usageRecords)
+      .leftJoin(models, eq(usageRecords.modelId, models.id))
+      .where(scope)
+      .groupBy(usageRecords.modelId, models.name)
+      .orderBy(desc(totalsColumns.inputTokens)),
+    db
+      .select({ assistantId: usageRecords.assistantId, name: assistantName, ...totalsColumns })
+      .from(usageRecords)
+      .leftJoin(assistants, eq(usageRecords.assistantId, assistants.id))
+      .leftJoin(personas, eq(assistants.personaId, personas.id))
+      .leftJoin(assistantModels, eq(assistants.modelId, assistantModels.id))
+      .where(scope)
+      .groupBy(usageRecords.assistantId, assistantName)
+      .orderBy(desc(totalsColumns.inputTokens)),
+  ])
+
+  return {
+    totals: totals ?? { requests: 0, inputTokens: 0, outputTokens: 0, cost: null },
+    byDay,
+    byModel,
+    byAssistant,
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Character Card mapping for persona import and export
+ * Used across both client and server components
+ *
+ * Character cards (https://github.com/malfoyslastname/character-card-spec-v2)
+ * describe a character in free text fields. Three of them map onto the
+ * persona truths, the user can change the mapping before importing.
+ */
+
+// Card text fields, in the camelCase the API uses
+export interface CharacterCard {
+  spec: 'chara_card_v1' | 'chara_card_v2' | 'chara_card_v3'
+  name: string
+  description: string
+  personality: string
+  scenario: string
+  firstMessage: string
+  exampleMessages: string
+  systemPrompt: string
+  postHistoryInstructions: string
+  creatorNotes: string
+  creator: string
+  tags: string[]
+}
+
+// Card fields that can fill a persona truth
+export const CARD_SOURCE_FIELDS = ['description', 'personality', 'scenario'] as const
+export type CardSourceField = typeof CARD_SOURCE_FIELDS[number]
+
+// Card fields without a persona counterpart, shown for reference during review
+export const CARD_EXTRA_FIELDS = [
+  'firstMessage',
+  'exampleMessages',
+  'systemPrompt',
+  'postHistoryInstructions',
+  'creatorNotes',
+] as const
+
+export type TruthField = 'universalTruth' | 'internalTruth' | 'externalTruth'
+
+// Which card field fills each truth, null leaves the truth empty
+export type CardMapping = Record<TruthField, CardSourceField | null>
+
+export const DEFAULT_CARD_MAPPING: CardMapping = {
+  universalTruth: 'description',
+  internalTruth: 'personality',
+  externalTruth: 'scenario',
+}
+
+/**
+ * Persona fields of a card under the given mapping
+ */
+export function cardToPersona(card: CharacterCard, mapping: CardMapping = DEFAULT_CARD_MAPPING) {
+  const pick = (field: CardSourceField | null) => (field && card[field].trim()) || null
+
+  return {
+    name: card.name,
+    universalTruth: pick(mapping.universalTruth),
+    internalTruth: pick(mapping.internalTruth),
+    externalTruth: pick(mapping.externalTruth),
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Model metadata extraction for discovery
+ * Used across both client and server components
+ *
+ * Providers expose context window, capability and pricing details under
+ * different field names, when they expose them at all. Fields that
+ * cannot be found are left unset.
+ */
+
+export interface DiscoveredMetadata {
+  contextLength?: number
+  maxOutputTokens?: number
+  capabilities?: {
+    systemPrompt?: boolean
+    streaming?: boolean
+    jsonMode?: boolean
+    toolCalling?: boolean
+  }
+  inputPrice?: number // Per million tokens
+  outputPrice?: number // Per million tokens
+}
+
+/**
+ * Return the first positive integer found at any of the given paths
+ */
+function findNumber(entry: Record<string, unknown>, paths: string[]): number | undefined {
+  for (const path of paths) {
+    let value: unknown = entry
+    for (const key of path.split('.')) {
+      value = value && typeof value === 'object'
+        ? (value as Record<string, unknown>)[key]
+        : undefined
+    }
+    if (typeof value === 'number' && Number.isInteger(value) && value > 0) {
+      return value
+    }
+  }
+  return undefined
+}
+
+/**
+ * Convert a per-token price string to a per-million-token price
+ */
+function perMillion(value: unknown): number | undefined {
+  const price = typeof value === 'string' ? Number(value) : value
+  if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+    return undefined
+  }
+  // Round away floating point noise from the conversion
+  return Math.round(price * 1_000_000 * 10_000) / 10_000
+}
+
+/**
+ * Extract metadata from a single model list entry
+ *
+ * Recognized formats:
+ * - OpenRouter: context_length, top_provider.max_completion_tokens, supported_parameters, pricing
+ * - vLLM: max_model_len
+ * - LM Studio: max_context_length
+ * - Anthropic: context_window, max_tokens
+ * - Gemini: inputTokenLimit, outputTokenLimit
+ */
+export function extractModelMetadata(entry: Record<string, unknown>): DiscoveredMetadata {
+  const metadata: DiscoveredMetadata = {}
+
+  const contextLength = findNumber(entry, [
+    'context_length',
+    'context_window',
+    'max_context_length',
+    'max_model_len',
+    'inputTokenLimit',
+  ])
+  if (contextLength) metadata.contextLength = contextLength
+
+  const maxOutputTokens = findNumber(entry, [
+    'top_provider.max_completion_tokens',
+    'max_completion_tokens',
+    'max_output_tokens',
+    'max_tokens',
+    'outputTokenLimit',
+  ])
+  if (maxOutputTokens) metadata.maxOutputTokens = maxOutputTokens
+
+  // OpenRouter lists the request parameters each model accepts
+  const parameters = entry.supported_parameters
+  if (Array.isArray(parameters)) {
+    metadata.capabilities = {
+      jsonMode: parameters.includes('response_format'),
+      toolCalling: parameters.includes('tools'),
+    }
+  }
+
+  // OpenRouter prices are strings in currency per token
+  const pricing = entry.pricing
+  if (pricing && typeof pricing === 'object') {
+    const { prompt, completion } = pricing as Record<string, unknown>
+    const inputPrice = perMillion(prompt)
+    const outputPrice = perMillion(completion)
+    if (inputPrice !== undefined) metadata.inputPrice = inputPrice
+    if (outputPrice !== undefined) metadata.outputPrice = outputPrice
+  }
+
+  return metadata
+}
@@ -9,17 +9,68 @@ export const apiEndpointSchema = z
   .string()
   .min(1, 'API endpoint is required')
   .url('Must be a valid URL')
-  .refine(
-    (url) => /\/v\d+(?:\/|$)/.test(url),
-    'URL must include a version path (e.g., /v1)'
+
+/**
+ * Supported provider API flavours
+ */
+export const providerKindSchema = z.enum(['openai', 'anthropic', 'ollama', 'azure', 'gemini'])
+
+/**
+ * Extra HTTP headers sent with every provider request, or with every
+ * request for one model
+ */
+export const providerHeadersSchema = z
+  .record(
+    z.string().regex(/^[A-Za-z0-9-]+$/, 'Header names may only contain letters, digits and dashes'),
+    z.string()
   )
+  .refine((headers) => Object.keys(headers).length <= 20, 'At most 20 headers')
 
-export const modelValidationSchemas = {
-  name: z.string().min(1, 'Model name is required'),
-  modelId: z.string().min(1, 'Model ID is required'),
+/**
+ * Sampling parameters, used for model defaults and assistant overrides
+ */
+export const modelSettingsSchema = z.object({
+  temperature: z.number().min(0, 'Temperature must be at least 0').max(2, 'Temperature must be at most 2').optional(),
+  topP: z.number().min(0, 'Top P must be at least 0').max(1, 'Top P must be at most 1').optional(),
+  maxTokens: z.number().int('Max tokens must be a whole number').positive('Max tokens must be positive').optional(),
+  stop: z.array(z.string().min(1, 'Stop sequences cannot be empty')).max(4, 'At most 4 stop sequences').optional(),
+  presencePenalty: z.number().min(-2, 'Presence penalty must be at least -2').max(2, 'Presence penalty must be at most 2').optional(),
+  frequencyPenalty: z.number().min(-2, 'Frequency penalty must be at least -2').max(2, 'Frequency penalty must be at most 2').optional(),
+}).strict()
+
+/**
+ * Features a model supports
+ */
+export const modelCapabilitiesSchema = z.object({
+  systemPrompt: z.boolean().optional(),
+  streaming: z.boolean().optional(),
+  jsonMode: z.boolean().optional(),
+  toolCalling: z.boolean().optional(),
+  maxTokens: z.boolean().optional(),
+}).strict()
+
+export const providerValidationSchemas = {
+  name: z.string().min(1, 'Provider name is required').max(100),
+  kind: providerKindSchema,
   apiEndpoint: apiEndpointSchema,
   apiKey: z.string().nullable().optional(),
+  headers: providerHeadersSchema.nullable().optional(),
+  maxConcurrency: z.number().int('Max concurrency must be a whole number').positive('Max concurrency must be positive').nullable().optional(),
+  requestsPerMinute: z.number().int('Requests per minute must be a whole number').positive('Requests per minute must be positive').nullable().optional(),
+}
+
+export const modelValidationSchemas = {
+  name: z.string().min(1, 'Model name is required').max(100),
+  modelId: z.string().min(1, 'Model ID is required'),
+  providerId: z.string().uuid('Please select a provider'),
   isDefault: z.boolean().optional(),
+  contextLength: z.number().int('Context length must be a whole number').positive('Context length must be positive').nullable().optional(),
+  maxOutputTokens: z.number().int('Max output tokens must be a whole number').positive('Max output tokens must be positive').nullable().optional(),
+  defaultSettings: modelSettingsSchema.nullable().optional(),
+  capabilities: modelCapabilitiesSchema.nullable().optional(),
+  inputPrice: z.number().nonnegative('Price cannot be negative').nullable().optional(),
+  outputPrice: z.number().nonnegative('Price cannot be negative').nullable().optional(),
+  headers: providerHeadersSchema.nullable().optional(),
 }
 
 /**
@@ -28,25 +79,51 @@ export const modelValidationSchemas = {
 export const createModelSchema = z.object({
   name: modelValidationSchemas.name,
   modelId: modelValidationSchemas.modelId,
-  apiEndpoint: modelValidationSchemas.apiEndpoint,
-  apiKey: modelValidationSchemas.apiKey,
+  providerId: modelValidationSchemas.providerId,
   isDefault: modelValidationSchemas.isDefault,
+  contextLength: modelValidationSchemas.contextLength,
+  maxOutputTokens: modelValidationSchemas.maxOutputTokens,
+  defaultSettings: modelValidationSchemas.defaultSettings,
+  capabilities: modelValidationSchemas.capabilities,
+  inputPrice: modelValidationSchemas.inputPrice,
+  outputPrice: modelValidationSchemas.outputPrice,
+  headers: modelValidationSchemas.headers,
 })
 
 export const updateModelSchema = z.object({
   name: modelValidationSchemas.name,
   modelId: modelValidationSchemas.modelId,
-  apiEndpoint: modelValidationSchemas.apiEndpoint,
-  apiKey: modelValidationSchemas.apiKey,
+  providerId: modelValidationSchemas.providerId,
   isDefault: modelValidationSchemas.isDefault,
+  contextLength: modelValidationSchemas.contextLength,
+  maxOutputTokens: modelValidationSchemas.maxOutputTokens,
+  defaultSettings: modelValidationSchemas.defaultSettings,
+  capabilities: modelValidationSchemas.capabilities,
+  inputPrice: modelValidationSchemas.inputPrice,
+  outputPrice: modelValidationSchemas.outputPrice,
+  headers: modelValidationSchemas.headers,
 })
 
 /**
- * Provider configuration schema for model discovery
+ * Complete schemas for provider operations
  */
-export const providerConfigSchema = z.object({
-  apiEndpoint: apiEndpointSchema,
-  apiKey: modelValidationSchemas.apiKey,
+export const createProviderSchema = z.object({
+  name: providerValidationSchemas.name,
+  kind: providerValidationSchemas.kind,
+  apiEndpoint: providerValidationSchemas.apiEndpoint,
+  apiKey: providerValidationSchemas.apiKey,
+  headers: providerValidationSchemas.headers,
+  maxConcurrency: providerValidationSchemas.maxConcurrency,
+  requestsPerMinute: providerValidationSchemas.requestsPerMinute,
+})
+
+export const updateProviderSchema = createProviderSchema.partial()
+
+/**
+ * Provider selection schema for model discovery
+ */
+export const providerSelectionSchema = z.object({
+  providerId: modelValidationSchemas.providerId,
 })
 
 /**
@@ -54,4 +131,33 @@ export const providerConfigSchema = z.object({
  */
 export const modelSelectionSchema = z.object({
   selectedModels: z.array(z.string()).min(1, 'Please select at least one model'),
-})
\ No newline at end of file
+})
+
+/**
+ * Stand-in for API keys in exported model configurations
+ */
+export const API_KEY_PLACEHOLDER = '<API_KEY>'
+
+/**
+ * Portable model configuration file
+ * Models are grouped under their provider and validated like new models,
+ * minus the provider reference and the default flag
+ */
+export const modelExportSchema = z.object({
+  version: z.literal(1, { errorMap: () => ({ message: 'Unsupported file version' }) }),
+  exportedAt: z.string().optional(),
+  providers: z.array(
+    createProviderSchema.extend({
+      models: z.array(createModelSchema.omit({ providerId: true, isDefault: true })).max(500, 'At most 500 models per provider'),
+    })
+  ).min(1, 'The file contains no providers').max(50, 'At most 50 providers'),
+})
+
+/**
+ * Model name on an Ollama server, e.g. "llama3.1:8b" or "hf.co/user/repo:Q4_K_M"
+ */
+export const ollamaModelNameSchema = z
+  .string()
+  .min(1, 'Model name is required')
+  .max(200)
+  .regex(/^[\w.\-:/]+$/, 'Model names may only contain letters, digits, dots, dashes, colons and slashes')
@@ -0,0 +1,51 @@
+import { expect, vi } from 'vitest'
+
+interface FetchOptions {
+  method?: string
+  headers?: Record<string, string>
+  body?: unknown
+  responseType?: string
+}
+
+/**
+ * Replace Nitro's global $fetch with a mock answering every request
+ * with a recorded response; stream requests get it as a byte stream
+ */
+export function mockFetch(response: unknown) {
+  const fetchMock = vi.fn(async (_url: string, options: FetchOptions = {}) => {
+    if (options.responseType === 'stream') {
+      return new Response(String(response)).body
+    }
+    return structuredClone(response)
+  })
+
+  vi.stubGlobal('$fetch', fetchMock)
+  return fetchMock
+}
+
+/**
+ * Make the mocked $fetch fail like ofetch does for an HTTP error
+ */
+export function mockFetchError(status: number, data: unknown = {}) {
+  const fetchMock = vi.fn(async () => {
+    throw Object.assign(new Error(`[GET] ${status}`), {
+      name: 'FetchError',
+      status,
+      statusCode: status,
+      data,
+      response: new Response(null, { status }),
+    })
+  })
+
+  vi.stubGlobal('$fetch', fetchMock)
+  return fetchMock
+}
+
+/**
+ * The URL and options of the only request made
+ */
+export function lastRequest(fetchMock: ReturnType<typeof mockFetch>) {
+  expect(fetchMock).toHaveBeenCalledTimes(1)
+  const [url, options = {}] = fetchMock.mock.calls[0]!
+  return { url, ...options }
+}
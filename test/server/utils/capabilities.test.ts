@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { ChatMessage, ChatOptions, ChatResult, LLMClient } from '../../../server/utils/llm/types'
+
+const client = vi.hoisted(() => ({ current: null as LLMClient | null }))
+
+vi.mock('../../../server/utils/llm', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../server/utils/llm')>(),
+  createLLMClient: () => client.current,
+}))
+
+const { probeCapabilities } = await import('../../../server/utils/capabilities')
+
+/**
+ * Client that answers every chat with the reply of the given function
+ */
+function useClient(reply: (messages: ChatMessage[], options: ChatOptions) => Partial<ChatResult>) {
+  client.current = {
+    provider: 'openai',
+    chat: async (messages, options) => ({
+      content: '',
+      model: options.model,
+      finishReason: 'stop',
+      ...reply(messages, options),
+    }),
+    stream: async function* () {
+      yield { content: '1 2 3' }
+    },
+    listModels: async () => [],
+  }
+}
+
+const connection = { apiEndpoint: 'https://api.openai.com/v1', providerId: null }
+
+describe('probeCapabilities', () => {
+  it('leaves an ignored system prompt undecided', async () => {
+    useClient(() => ({ content: 'Hello!' }))
+
+    const result = await probeCapabilities(connection, 'llama-3')
+
+    expect(result.checks.find(check => check.id === 'systemPrompt')?.status).toBe('unknown')
+    expect(result.capabilities).not.toHaveProperty('systemPrompt')
+  })
+
+  it('detects models that ignore max_tokens', async () => {
+    useClient((messages, options) => options.maxTokens === 5
+      ? { content: Array.from({ length: 100 }, (_, i) => i + 1).join(' '), usage: { inputTokens: 20, outputTokens: 290 } }
+      : { content: 'PINEAPPLE' })
+
+    const result = await probeCapabilities(connection, 'llama-3')
+
+    expect(result.capabilities.maxTokens).toBe(false)
+    expect(result.capabilities.systemPrompt).toBe(true)
+  })
+
+  it('accepts replies cut off at max_tokens', async () => {
+    useClient(() => ({ content: '1 2 3', usage: { inputTokens: 20, outputTokens: 5 } }))
+
+    const result = await probeCapabilities(connection, 'gpt-4o')
+
+    expect(result.capabilities.maxTokens).toBe(true)
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildSystemPrompt,
+  buildSystemPrompts,
+  type ContextInput,
+  type ContextParticipant,
+} from '../../../server/utils/context'
+
+const police = {
+  id: 'aff-police',
+  name: 'NYPD',
+  universalTruth: 'The city police department',
+  internalTruth: 'POLICE-SECRET: Murphy takes bribes',
+  externalTruth: 'Seen as overworked',
+}
+
+const family = {
+  id: 'aff-family',
+  name: 'The Family',
+  universalTruth: 'A restaurant owners association',
+  internalTruth: 'FAMILY-SECRET: runs the docks',
+  externalTruth: 'Rumoured to be the mafia',
+}
+
+const bob: ContextParticipant = {
+  assistantId: 'assistant-bob',
+  persona: {
+    id: 'persona-bob',
+    name: 'Bob',
+    universalTruth: 'A patient in therapy',
+    internalTruth: 'BOB-SECRET: undercover cop',
+    externalTruth: 'Seems nervous',
+  },
+  affiliations: [police],
+}
+
+const tony: ContextParticipant = {
+  assistantId: 'assistant-tony',
+  persona: {
+    id: 'persona-tony',
+    name: 'Tony',
+    universalTruth: 'A restaurant owner',
+    internalTruth: 'TONY-SECRET: ordered the hit',
+    externalTruth: 'Charming but menacing',
+  },
+  affiliations: [family],
+}
+
+const alice: ContextParticipant = {
+  assistantId: 'assistant-alice',
+  persona: {
+    id: 'persona-alice',
+    name: 'Alice',
+    universalTruth: 'A therapist',
+    internalTruth: 'ALICE-SECRET: owes Tony money',
+    externalTruth: 'Calm and attentive',
+  },
+  affiliations: [],
+}
+
+const input: ContextInput = {
+  world: { name: 'Modern NYC', description: 'New York, today.' },
+  scenario: { name: 'First Session', description: 'A first therapy session.' },
+  participants: [bob, tony, alice],
+}
+
+const occurrences = (text: string, search: string) => text.split(search).length - 1
+
+describe('buildSystemPrompt', () => {
+  it('includes the speaker\'s own internal truth', () => {
+    const prompt = buildSystemPrompt(input, bob)
+
+    expect(prompt).toContain('YOU ARE: Bob')
+    expect(prompt).toContain('BOB-SECRET')
+  })
+
+  it('leaves out the internal truths of other assistants', () => {
+    const prompt = buildSystemPrompt(input, bob)
+
+    expect(prompt).not.toContain('TONY-SECRET')
+    expect(prompt).not.toContain('ALICE-SECRET')
+    expect(prompt).toContain('Charming but menacing')
+    expect(prompt).toContain('Calm and attentive')
+  })
+
+  it('shows an affiliation\'s internal truth to members only', () => {
+    expect(buildSystemPrompt(input, bob)).toContain('POLICE-SECRET')
+    expect(buildSystemPrompt(input, bob)).not.toContain('FAMILY-SECRET')
+    expect(buildSystemPrompt(input, tony)).toContain('FAMILY-SECRET')
+    expect(buildSystemPrompt(input, tony)).not.toContain('POLICE-SECRET')
+
+    const outsider = buildSystemPrompt(input, alice)
+    expect(outsider).not.toContain('POLICE-SECRET')
+    expect(outsider).not.toContain('FAMILY-SECRET')
+    expect(outsider).toContain('Rumoured to be the mafia')
+  })
+
+  it('lists an own affiliation\'s internal truth in one section only', () => {
+    const prompt = buildSystemPrompt(input, bob)
+    const [own, known] = prompt.split('KNOWN AFFILIATIONS:')
+
+    expect(occurrences(prompt, 'POLICE-SECRET')).toBe(1)
+    expect(own).toContain('POLICE-SECRET')
+    expect(known).not.toContain('POLICE-SECRET')
+  })
+
+  it('omits the scenario and empty truths', () => {
+    const prompt = buildSystemPrompt(
+      { ...input, scenario: null },
+      { ...alice, persona: { ...alice.persona, internalTruth: '  ' } }
+    )
+
+    expect(prompt).not.toContain('SCENARIO:')
+    expect(prompt).not.toContain('- Internal:')
+  })
+})
+
+describe('buildSystemPrompts', () => {
+  it('builds one prompt per assistant without leaking other secrets', () => {
+    const prompts = buildSystemPrompts(input)
+    const secrets: Record<string, string[]> = {
+      'assistant-bob': ['BOB-SECRET', 'POLICE-SECRET'],
+      'assistant-tony': ['TONY-SECRET', 'FAMILY-SECRET'],
+      'assistant-alice': ['ALICE-SECRET'],
+    }
+    const allSecrets = Object.values(secrets).flat()
+
+    expect([...prompts.keys()]).toEqual(Object.keys(secrets))
+
+    for (const [assistantId, prompt] of prompts) {
+      const own = secrets[assistantId]!
+      for (const secret of allSecrets) {
+        if (own.includes(secret)) {
+          expect(prompt).toContain(secret)
+        } else {
+          expect(prompt).not.toContain(secret)
+        }
+      }
+    }
+  })
+})
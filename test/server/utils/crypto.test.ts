@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { decrypt, encrypt, isEncrypted, needsReencryption } from '../../../server/utils/crypto'
+
+describe('isEncrypted', () => {
+  it('recognizes current ciphertexts', () => {
+    const ciphertext = encrypt('sk-test')
+
+    expect(isEncrypted(ciphertext)).toBe(true)
+    expect(needsReencryption(ciphertext)).toBe(false)
+    expect(decrypt(ciphertext)).toBe('sk-test')
+  })
+
+  it('recognizes legacy CBC ciphertexts', () => {
+    expect(isEncrypted(`${'0'.repeat(32)}:abcdef`)).toBe(true)
+  })
+
+  it('treats plain text keys as unencrypted', () => {
+    expect(isEncrypted('sk-proj-abc123')).toBe(false)
+    expect(isEncrypted('key:with:colons')).toBe(false)
+    expect(isEncrypted(null)).toBe(false)
+  })
+})
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createAzureClient, parseAzureEndpoint } from '../../../../server/utils/llm/azure'
+import { lastRequest, mockFetch, mockFetchError } from '../../../helpers/fetch'
+import chat from '../../../fixtures/llm/azure/chat.json'
+import deployments from '../../../fixtures/llm/azure/deployments.json'
+
+// Fixture hosts are not resolved
+vi.mock('../../../../server/utils/outbound', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../../server/utils/outbound')>(),
+  checkOutboundUrl: vi.fn(async () => null),
+}))
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('parseAzureEndpoint', () => {
+  it('drops the /openai path and defaults the API version', () => {
+    expect(parseAzureEndpoint('https://my-resource.openai.azure.com/openai/')).toEqual({
+      baseUrl: 'https://my-resource.openai.azure.com',
+      apiVersion: '2024-10-21',
+    })
+  })
+
+  it('keeps a pinned API version', () => {
+    expect(parseAzureEndpoint('https://my-resource.openai.azure.com?api-version=2024-06-01').apiVersion)
+      .toBe('2024-06-01')
+  })
+})
+
+describe('createAzureClient', () => {
+  it('sends chat requests to the deployment URL with the api-key header', async () => {
+    const fetchMock = mockFetch(chat.response)
+    const client = createAzureClient(chat.config)
+
+    await client.chat(chat.request.body.messages as never, {
+      model: 'gpt-4o-prod',
+      temperature: 0.7,
+      maxTokens: 256,
+    })
+
+    const request = lastRequest(fetchMock)
+    expect(request.url).toBe(chat.request.url)
+    expect(request.method).toBe(chat.request.method)
+    expect(request.headers).toEqual(chat.request.headers)
+    expect(request.body).toEqual(chat.request.body)
+  })
+
+  it('parses the reply and usage', async () => {
+    mockFetch(chat.response)
+    const client = createAzureClient(chat.config)
+
+    const result = await client.chat(chat.request.body.messages as never, { model: 'gpt-4o-prod' })
+
+    expect(result).toMatchObject({
+      content: 'Honestly? A bit on edge.',
+      model: 'gpt-4o-2024-08-06',
+      finishReason: 'stop',
+      usage: { inputTokens: 27, outputTokens: 8 },
+    })
+  })
+
+  it('lets custom headers override the api-key header', async () => {
+    const fetchMock = mockFetch(chat.response)
+    const client = createAzureClient({
+      ...chat.config,
+      headers: { 'api-key': 'gateway-key', 'X-Trace-Id': 'trace-1' },
+    })
+
+    await client.chat(chat.request.body.messages as never, { model: 'gpt-4o-prod' })
+
+    expect(lastRequest(fetchMock).headers).toEqual({
+      'Content-Type': 'application/json',
+      'api-key': 'gateway-key',
+      'X-Trace-Id': 'trace-1',
+    })
+  })
+
+  it('lists provisioned deployments', async () => {
+    const fetchMock = mockFetch(deployments.response)
+    const client = createAzureClient(deployments.config)
+
+    const models = await client.listModels()
+
+    const request = lastRequest(fetchMock)
+    expect(request.url).toBe(deployments.request.url)
+    expect(request.headers).toEqual(deployments.request.headers)
+    expect(models).toEqual([
+      { id: 'gpt-4o-prod', name: 'gpt-4o-prod (gpt-4o)' },
+      { id: 'gpt-4o-mini', name: 'gpt-4o-mini' },
+    ])
+  })
+
+  it('returns no deployments when the resource cannot list them', async () => {
+    mockFetchError(404, { error: { code: '404', message: 'Resource not found' } })
+    const client = createAzureClient(deployments.config)
+
+    await expect(client.listModels()).resolves.toEqual([])
+  })
+
+  it('still reports an invalid key when listing deployments', async () => {
+    mockFetchError(401, { error: { code: '401', message: 'Access denied due to invalid subscription key' } })
+    const client = createAzureClient(deployments.config)
+
+    await expect(client.listModels()).rejects.toMatchObject({ code: 'auth' })
+  })
+})
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createGeminiClient } from '../../../../server/utils/llm/gemini'
+import type { ChatChunk, ChatMessage } from '../../../../server/utils/llm/types'
+import { lastRequest, mockFetch } from '../../../helpers/fetch'
+import chat from '../../../fixtures/llm/gemini/chat.json'
+import stream from '../../../fixtures/llm/gemini/stream.json'
+
+// Fixture hosts are not resolved
+vi.mock('../../../../server/utils/outbound', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../../server/utils/outbound')>(),
+  checkOutboundUrl: vi.fn(async () => null),
+}))
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+const chatMessages: ChatMessage[] = [
+  { role: 'system', content: 'You are Bob.' },
+  { role: 'system', content: 'Stay in character.' },
+  { role: 'user', content: 'Alice: How are you feeling today?' },
+  { role: 'assistant', content: 'Fine, I guess.' },
+  { role: 'user', content: 'Alice: Only fine?' },
+]
+
+describe('createGeminiClient', () => {
+  it('sends system messages as systemInstruction and settings as generationConfig', async () => {
+    const fetchMock = mockFetch(chat.response)
+    const client = createGeminiClient(chat.config)
+
+    await client.chat(chatMessages, {
+      model: 'gemini-2.5-flash',
+      temperature: 0.7,
+      topP: 0.9,
+      maxTokens: 256,
+      stop: ['Alice:'],
+    })
+
+    const request = lastRequest(fetchMock)
+    expect(request.url).toBe(chat.request.url)
+    expect(request.method).toBe(chat.request.method)
+    expect(request.headers).toEqual(chat.request.headers)
+    expect(request.body).toEqual(chat.request.body)
+  })
+
+  it('parses the reply without thoughts and bills thinking as output', async () => {
+    mockFetch(chat.response)
+    const client = createGeminiClient(chat.config)
+
+    const result = await client.chat(chatMessages, { model: 'gemini-2.5-flash' })
+
+    expect(result).toMatchObject({
+      content: 'Honestly? A bit on edge.',
+      model: 'gemini-2.5-flash',
+      finishReason: 'STOP',
+      usage: { inputTokens: 31, outputTokens: 20 },
+    })
+  })
+
+  it('streams over SSE and reports the final usage', async () => {
+    const fetchMock = mockFetch(stream.response)
+    const client = createGeminiClient(stream.config)
+
+    const chunks: ChatChunk[] = []
+    for await (const chunk of client.stream(
+      [
+        { role: 'system', content: 'You are Bob.' },
+        { role: 'user', content: 'Alice: How are you feeling today?' },
+      ],
+      { model: 'gemini-2.5-flash' }
+    )) {
+      chunks.push(chunk)
+    }
+
+    const request = lastRequest(fetchMock)
+    expect(request.url).toBe(stream.request.url)
+    expect(request.responseType).toBe('stream')
+    expect(request.body).toEqual(stream.request.body)
+
+    expect(chunks.map(chunk => chunk.content).join('')).toBe('Honestly? A bit on edge.')
+    expect(chunks.at(-1)).toMatchObject({
+      finishReason: 'STOP',
+      usage: { inputTokens: 24, outputTokens: 8 },
+    })
+  })
+
+  it('lets custom headers override the API key header', async () => {
+    const fetchMock = mockFetch(chat.response)
+    const client = createGeminiClient({
+      ...chat.config,
+      headers: { 'x-goog-api-key': 'proxy-key', 'X-Goog-User-Project': 'lmix' },
+    })
+
+    await client.chat(chatMessages, { model: 'gemini-2.5-flash' })
+
+    expect(lastRequest(fetchMock).headers).toEqual({
+      'Content-Type': 'application/json',
+      'x-goog-api-key': 'proxy-key',
+      'X-Goog-User-Project': 'lmix',
+    })
+  })
+
+  it('reports a blocked prompt', async () => {
+    mockFetch({ promptFeedback: { blockReason: 'SAFETY' } })
+    const client = createGeminiClient(chat.config)
+
+    await expect(client.chat(chatMessages, { model: 'gemini-2.5-flash' }))
+      .rejects.toMatchObject({ code: 'bad_request', message: 'Prompt was blocked (SAFETY)' })
+  })
+})
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createOpenAIClient } from '../../../../server/utils/llm/openai'
+import { lastRequest, mockFetch, mockFetchError } from '../../../helpers/fetch'
+
+// Fixture hosts are not resolved
+vi.mock('../../../../server/utils/outbound', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../../server/utils/outbound')>(),
+  checkOutboundUrl: vi.fn(async () => null),
+}))
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('createOpenAIClient', () => {
+  it('lets custom headers override the Authorization header', async () => {
+    const fetchMock = mockFetch({
+      model: 'gpt-4o',
+      choices: [{ message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+    })
+    const client = createOpenAIClient({
+      apiEndpoint: 'https://gateway.example.com/v1/',
+      apiKey: 'sk-test',
+      headers: { 'Authorization': 'Bearer gateway-token', 'OpenAI-Organization': 'org-1' },
+    })
+
+    await client.chat([{ role: 'user', content: 'Hi' }], { model: 'gpt-4o' })
+
+    const request = lastRequest(fetchMock)
+    expect(request.url).toBe('https://gateway.example.com/v1/chat/completions')
+    expect(request.headers).toEqual({
+      'Content-Type': 'application/json',
+      'Authorization': 'Bearer gateway-token',
+      'OpenAI-Organization': 'org-1',
+    })
+  })
+  it('streams again without usage when the server rejects stream_options', async () => {
+    const rejected = mockFetchError(400, { error: { message: 'Unrecognized request argument supplied: stream_options' } })
+    const stream = 'data: {"choices":[{"delta":{"content":"Hi"},"finish_reason":"stop"}]}\n\ndata: [DONE]\n\n'
+    const accepted = mockFetch(stream)
+    const fetchMock = vi.fn()
+      .mockImplementationOnce(rejected)
+      .mockImplementationOnce(accepted)
+    vi.stubGlobal('$fetch', fetchMock)
+
+    const client = createOpenAIClient({ apiEndpoint: 'https://llm.example.com/v1' })
+    const chunks = []
+    for await (const chunk of client.stream([{ role: 'user', content: 'Hi' }], { model: 'local' })) {
+      chunks.push(chunk)
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(fetchMock.mock.calls[0]![1].body).toHaveProperty('stream_options')
+    expect(fetchMock.mock.calls[1]![1].body).not.toHaveProperty('stream_options')
+    expect(chunks.map(chunk => chunk.content).join('')).toBe('Hi')
+  })
+})
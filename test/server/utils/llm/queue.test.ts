@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { LLMError } from '../../../../server/utils/llm/errors'
+import { getQueueStats, withQueue } from '../../../../server/utils/llm/queue'
+import type { ChatResult, ClientConfig, LLMClient } from '../../../../server/utils/llm/types'
+
+const ENDPOINT = 'https://api.openai.com/v1'
+
+/**
+ * Client whose chat calls wait until released by the test
+ */
+function createPendingClient() {
+  const pending: (() => void)[] = []
+
+  const client: LLMClient = {
+    provider: 'openai',
+    chat: () => new Promise<ChatResult>((resolve) => {
+      pending.push(() => resolve({ content: 'ok', model: 'gpt-4o', finishReason: 'stop' }))
+    }),
+    stream: async function* () {},
+    listModels: async () => [],
+  }
+
+  return { client, finishAll: () => pending.splice(0).forEach(finish => finish()) }
+}
+
+const config = (providerId: string | null, maxConcurrency?: number): ClientConfig => ({
+  apiEndpoint: ENDPOINT,
+  providerId,
+  limits: { maxConcurrency },
+})
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('withQueue', () => {
+  it('keeps providers on the same endpoint in separate queues', async () => {
+    const slow = createPendingClient()
+    const throttled = withQueue(slow.client, config('provider-a', 1))
+    const other = withQueue(slow.client, config('provider-b'))
+
+    const calls = [
+      throttled.chat([], { model: 'gpt-4o' }),
+      throttled.chat([], { model: 'gpt-4o' }),
+      other.chat([], { model: 'gpt-4o' }),
+      other.chat([], { model: 'gpt-4o' }),
+    ]
+    await tick()
+
+    expect(getQueueStats('provider-a')).toMatchObject({ active: 1, queued: 1 })
+    expect(getQueueStats('provider-b')).toMatchObject({ active: 2, queued: 0 })
+
+    slow.finishAll()
+    await tick()
+    slow.finishAll()
+    await Promise.all(calls)
+  })
+
+  it('does not pause other providers after a 429', async () => {
+    let limited = true
+    const client: LLMClient = {
+      provider: 'openai',
+      chat: async () => {
+        if (limited) {
+          limited = false
+          throw new LLMError('rate_limit', 'Too many requests', { provider: 'openai', retryAfter: 30 })
+        }
+        return { content: 'ok', model: 'gpt-4o', finishReason: 'stop' }
+      },
+      stream: async function* () {},
+      listModels: async () => [],
+    }
+
+    const rateLimited = withQueue(client, config('provider-c'))
+    const pending = rateLimited.chat([], { model: 'gpt-4o' })
+    await tick()
+
+    expect(getQueueStats('provider-c').pausedUntil).not.toBeNull()
+    expect(getQueueStats('provider-d').pausedUntil).toBeNull()
+
+    const other = withQueue(client, config('provider-d'))
+    await expect(other.chat([], { model: 'gpt-4o' })).resolves.toMatchObject({ content: 'ok' })
+
+    // Leave the paused call behind, it is not awaited
+    pending.catch(() => {})
+  })
+
+  it('gives unsaved connections a queue of their own', async () => {
+    const slow = createPendingClient()
+    const first = withQueue(slow.client, config(null, 1))
+    const second = withQueue(slow.client, config(null, 1))
+
+    const calls = [
+      first.chat([], { model: 'gpt-4o' }),
+      second.chat([], { model: 'gpt-4o' }),
+    ]
+    await tick()
+
+    // Both started although each queue allows one request at a time
+    slow.finishAll()
+    await expect(Promise.all(calls)).resolves.toHaveLength(2)
+  })
+})
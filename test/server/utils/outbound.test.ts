@@ -0,0 +1,100 @@
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  checkOutboundUrl,
+  findBlockedError,
+  outboundDispatcher,
+} from '../../../server/utils/outbound'
+
+// Answers per host name, a list is served one entry per lookup
+const records = new Map<string, string[]>()
+
+vi.mock('node:dns', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('node:dns')>()
+
+  const lookup = (
+    hostname: string,
+    options: { all?: boolean },
+    callback: (...args: unknown[]) => void
+  ) => {
+    const answers = records.get(hostname)
+    if (!answers) {
+      return callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' }))
+    }
+
+    const address = answers.length > 1 ? answers.shift()! : answers[0]!
+    const family = address.includes(':') ? 6 : 4
+    if (options.all) callback(null, [{ address, family }])
+    else callback(null, address, family)
+  }
+
+  return { ...dns, default: { ...dns, lookup }, lookup }
+})
+
+beforeEach(() => {
+  records.clear()
+  vi.unstubAllEnvs()
+})
+
+describe('checkOutboundUrl', () => {
+  it('allows public addresses', async () => {
+    records.set('api.example.com', ['93.184.216.34'])
+
+    await expect(checkOutboundUrl('https://api.example.com/v1')).resolves.toBeNull()
+  })
+
+  it('blocks private and loopback addresses', async () => {
+    records.set('internal.example.com', ['10.0.0.5'])
+
+    await expect(checkOutboundUrl('https://internal.example.com')).resolves.toContain('10.0.0.5')
+    await expect(checkOutboundUrl('http://127.0.0.1:5432')).resolves.toContain('127.0.0.1')
+    await expect(checkOutboundUrl('http://[::ffff:169.254.169.254]/')).resolves.toContain('private or internal')
+  })
+
+  it('blocks hosts that do not resolve', async () => {
+    await expect(checkOutboundUrl('https://nowhere.example.com')).resolves.toBe('nowhere.example.com could not be resolved')
+  })
+
+  it('honours the allowlist', async () => {
+    vi.stubEnv('OUTBOUND_ALLOWLIST', 'ollama, 192.168.0.0/16')
+    records.set('lan.example.com', ['192.168.1.20'])
+
+    await expect(checkOutboundUrl('http://ollama:11434/api')).resolves.toBeNull()
+    await expect(checkOutboundUrl('http://lan.example.com')).resolves.toBeNull()
+  })
+})
+
+describe('outboundDispatcher', () => {
+  const server = createServer((_request, response) => response.end('internal'))
+  let port: number
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    server.close()
+    await outboundDispatcher.close()
+  })
+
+  it('refuses a host that resolves to a private address on connect', async () => {
+    // Public for the check, loopback for the connection
+    records.set('rebind.example.com', ['93.184.216.34', '127.0.0.1'])
+    const url = `http://rebind.example.com:${port}/`
+
+    await expect(checkOutboundUrl(url)).resolves.toBeNull()
+
+    const error = await fetch(url, { dispatcher: outboundDispatcher } as RequestInit).catch(error => error)
+    expect(findBlockedError(error)?.message).toContain('rebind.example.com (127.0.0.1)')
+  })
+
+  it('connects to allowlisted hosts', async () => {
+    vi.stubEnv('OUTBOUND_ALLOWLIST', 'local.example.com')
+    records.set('local.example.com', ['127.0.0.1'])
+
+    const response = await fetch(`http://local.example.com:${port}/`, { dispatcher: outboundDispatcher } as RequestInit)
+    await expect(response.text()).resolves.toBe('internal')
+  })
+})
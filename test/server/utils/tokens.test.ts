@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { getTokenCounter, tokenizerFor, truncateToTokens } from '../../../server/utils/tokens'
+
+describe('tokenizerFor', () => {
+  it('counts OpenAI models exactly', () => {
+    expect(tokenizerFor('openai', 'gpt-4o-mini')).toEqual({ tokenizer: 'o200k_base', exact: true })
+    expect(tokenizerFor('openai', 'gpt-4-turbo')).toEqual({ tokenizer: 'cl100k_base', exact: true })
+  })
+
+  it('estimates unknown models behind OpenAI-compatible endpoints', async () => {
+    const choice = tokenizerFor('openai', 'meta-llama-3.1-8b-instruct')
+    expect(choice).toEqual({ tokenizer: 'cl100k_base', exact: false })
+
+    const counter = await getTokenCounter(choice)
+    expect(counter.exact).toBe(false)
+    expect(counter.count('Hello there')).toBeGreaterThan(0)
+  })
+})
+
+describe('truncateToTokens', () => {
+  it('cuts a text to the given number of tokens', async () => {
+    const counter = await getTokenCounter({ tokenizer: 'cl100k_base', exact: true })
+    const text = Array.from({ length: 100 }, (_, i) => i + 1).join(' ')
+
+    const cut = truncateToTokens(counter, text, 10)
+
+    expect(text.startsWith(cut)).toBe(true)
+    expect(counter.count(cut)).toBeLessThanOrEqual(10)
+    expect(counter.count(text.slice(0, cut.length + 1))).toBeGreaterThan(10)
+  })
+
+  it('keeps texts that fit and drops everything without room', async () => {
+    const counter = await getTokenCounter({ tokenizer: 'llama', exact: false })
+
+    expect(truncateToTokens(counter, 'Hello there', 100)).toBe('Hello there')
+    expect(truncateToTokens(counter, 'Hello there', 0)).toBe('')
+  })
+})